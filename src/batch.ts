@@ -0,0 +1,155 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config.js';
+import { ValidationError } from './validation.js';
+import type { FileSandbox } from './sandbox.js';
+
+const GLOB_CHARS = /[*?[{]/;
+const SKIPPED_DIRS = new Set(['node_modules', '.git']);
+
+// Translate a glob (`**`, `*`, `?`, `{a,b}`, `[abc]`) into an anchored regex
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        const slash = glob[i + 2] === '/';
+        pattern += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        pattern += '\\{';
+        continue;
+      }
+      const options = glob.slice(i + 1, end).split(',').map(option => option.replace(/[.+^$()|\\]/g, '\\$&'));
+      pattern += `(?:${options.join('|')})`;
+      i = end;
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i);
+      if (end === -1) {
+        pattern += '\\[';
+        continue;
+      }
+      pattern += glob.slice(i, end + 1);
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^$()|\\\]]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+// Collects regular files under `dir` (skipping node_modules and .git) until `limit` is reached
+export async function walk(dir: string, files: string[], limit: number): Promise<void> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (files.length >= limit) return;
+    const fullPath = path.join(dir, entry.name);
+    // Dirent.isDirectory() is false for symlinks, so links are never followed
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) {
+        await walk(fullPath, files, limit);
+      }
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+}
+
+/**
+ * Expand files, directories and glob patterns into a sorted, de-duplicated
+ * list of files with allowed extensions. Directories and glob bases must lie
+ * inside the sandbox; each file is still checked again when it is read.
+ */
+export async function expandPaths(patterns: string[], sandbox: FileSandbox): Promise<string[]> {
+  const limit = config.batch.maxFiles;
+  const results = new Set<string>();
+  const hasAllowedExtension = (file: string) =>
+    config.sandbox.allowedExtensions.includes(path.extname(file).toLowerCase());
+
+  for (const pattern of patterns) {
+    const absolute = path.resolve(pattern).split(path.sep).join('/');
+
+    if (GLOB_CHARS.test(absolute)) {
+      const segments = absolute.split('/');
+      const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment));
+      const base = segments.slice(0, firstGlob).join('/') || '/';
+      const matcher = globToRegExp(absolute);
+
+      const candidates: string[] = [];
+      await walk(await sandbox.resolveDirectory(base), candidates, limit * 10);
+      for (const file of candidates) {
+        if (matcher.test(file.split(path.sep).join('/')) && hasAllowedExtension(file)) {
+          results.add(file);
+        }
+      }
+    } else {
+      const stat = await fs.stat(absolute).catch(() => undefined);
+      if (stat?.isDirectory()) {
+        const files: string[] = [];
+        await walk(await sandbox.resolveDirectory(absolute), files, limit * 10);
+        files.filter(hasAllowedExtension).forEach(file => results.add(file));
+      } else {
+        // Missing or unreadable files are reported per file by the caller
+        results.add(absolute);
+      }
+    }
+
+    if (results.size > limit) {
+      throw new ValidationError(
+        `Batch matches more than ${limit} files; narrow the paths or raise BATCH_MAX_FILES`,
+        'paths'
+      );
+    }
+  }
+
+  return [...results].sort();
+}
+
+export interface BatchItemResult<T> {
+  file: string;
+  status: 'ok' | 'error';
+  result?: T;
+  error?: string;
+}
+
+/**
+ * Run worker over every file with at most `concurrency` in flight.
+ * Failures are recorded per file instead of aborting the batch.
+ */
+export async function mapWithConcurrency<T>(
+  files: string[],
+  concurrency: number,
+  worker: (file: string) => Promise<T>,
+  options: { signal?: AbortSignal; onItemDone?: (completed: number) => void } = {}
+): Promise<BatchItemResult<T>[]> {
+  const results: BatchItemResult<T>[] = new Array(files.length);
+  let next = 0;
+  let completed = 0;
+
+  const runLane = async () => {
+    while (next < files.length) {
+      options.signal?.throwIfAborted();
+      const index = next++;
+      const file = files[index]!;
+      try {
+        results[index] = { file, status: 'ok', result: await worker(file) };
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        results[index] = { file, status: 'error', error: error instanceof Error ? error.message : String(error) };
+      }
+      options.onItemDone?.(++completed);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, runLane));
+  return results;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from '@jest/globals';
+import { ChatSessionStore } from './chat-sessions.js';
+import { estimateTokens } from './chunking.js';
+import { ValidationError } from './validation.js';
+import type { ChatMessage } from './providers.js';
+
+// Replies with a fixed text and records what the model was sent
+function recorder(reply = 'ok') {
+  const calls: ChatMessage[][] = [];
+  const complete = async (messages: ChatMessage[]) => {
+    calls.push(messages);
+    return reply;
+  };
+  return { calls, complete };
+}
+
+describe('ChatSessionStore', () => {
+  it('continues a session with its history and system prompt', async () => {
+    const store = new ChatSessionStore(10_000, 10, 60_000);
+    const { calls, complete } = recorder();
+
+    const first = await store.send(undefined, undefined, 'hello', 'be brief', complete);
+    const second = await store.send(undefined, first.sessionId, 'again', undefined, complete);
+
+    expect(second).toMatchObject({ sessionId: first.sessionId, messages: 4, trimmed: 0 });
+    expect(calls[1]).toEqual([
+      { role: 'system', content: 'be brief' },
+      { role: 'user', content: 'hello' },
+      { role: 'assistant', content: 'ok' },
+      { role: 'user', content: 'again' }
+    ]);
+  });
+
+  it('drops the oldest exchanges that no longer fit the token budget', async () => {
+    const message = 'x'.repeat(400);
+    // Room for the new message and two earlier exchanges of two messages each
+    const budget = estimateTokens(message) * 5;
+    const store = new ChatSessionStore(budget, 10, 60_000);
+    const { calls, complete } = recorder(message);
+
+    let sessionId: string | undefined;
+    for (let turn = 0; turn < 4; turn++) {
+      sessionId = (await store.send(undefined, sessionId, `${turn}${message}`.slice(0, 400), '', complete)).sessionId;
+    }
+    const result = await store.send(undefined, sessionId, message, undefined, complete);
+
+    // Each turn trims what no longer fits, so only the exchange of turn 1 goes now
+    expect(result.trimmed).toBe(2);
+    expect(calls[4]).toHaveLength(5);
+    expect(calls[4]![0]!.content.startsWith('2')).toBe(true);
+    expect(result.messages).toBe(6);
+  });
+
+  it('keeps a failed turn out of the history', async () => {
+    const store = new ChatSessionStore(10_000, 10, 60_000);
+    const { complete } = recorder();
+    const { sessionId } = await store.send(undefined, undefined, 'hello', undefined, complete);
+
+    await expect(store.send(undefined, sessionId, 'boom', undefined, async () => {
+      throw new Error('backend down');
+    })).rejects.toThrow('backend down');
+    expect(store.get(undefined, sessionId)!.messages).toHaveLength(2);
+  });
+
+  it('evicts the least recently used session beyond the limit', async () => {
+    const store = new ChatSessionStore(10_000, 2, 60_000);
+    const { complete } = recorder();
+    const a = await store.send(undefined, 'a', 'one', undefined, complete);
+    await store.send(undefined, 'b', 'two', undefined, complete);
+    await store.send(undefined, a.sessionId, 'three', undefined, complete);
+    await store.send(undefined, 'c', 'four', undefined, complete);
+
+    expect(store.list().map(session => session.id).sort()).toEqual(['a', 'c']);
+  });
+
+  it('keeps each MCP session to its own chat sessions', async () => {
+    const store = new ChatSessionStore(10_000, 10, 60_000);
+    const { calls, complete } = recorder();
+    const mine = await store.send('client-1', undefined, 'secret', undefined, complete);
+
+    expect(store.list('client-2')).toEqual([]);
+    expect(store.get('client-2', mine.sessionId)).toBeUndefined();
+    expect(() => store.delete('client-2', mine.sessionId)).toThrow(ValidationError);
+
+    // The same id from another client starts that client's own session
+    const theirs = await store.send('client-2', mine.sessionId, 'hi', undefined, complete);
+    expect(theirs.messages).toBe(2);
+    expect(calls[1]!.some(message => message.content === 'secret')).toBe(false);
+    expect(store.list('client-1')).toHaveLength(1);
+    expect(store.get('client-1', mine.sessionId)!.messages[0]!.content).toBe('secret');
+  });
+});
@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { estimateTokens } from './chunking.js';
+import { ValidationError } from './validation.js';
+import type { ChatMessage } from './providers.js';
+
+export interface ChatSession {
+  id: string;
+  // MCP session of the client that owns it; unset over stdio
+  owner?: string;
+  systemPrompt?: string;
+  // User and assistant turns, oldest first; the system prompt is kept apart
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ChatTurnResult {
+  sessionId: string;
+  reply: string;
+  // Messages now stored in the session, including this turn
+  messages: number;
+  // Older messages dropped to fit the history budget
+  trimmed: number;
+  // Estimated tokens sent to the model
+  promptTokens: number;
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  systemPrompt?: string;
+  messages: number;
+  tokens: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function tokensOf(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+}
+
+// Sessions are stored per owner, so one client can't reach another's by id
+function keyOf(owner: string | undefined, id: string): string {
+  return `${owner ?? ''}\0${id}`;
+}
+
+/**
+ * Conversations with the local model, kept in memory. Each turn sends the
+ * system prompt, as much recent history as fits CHAT_HISTORY_TOKENS and the
+ * new message; history that no longer fits is dropped for good, oldest
+ * exchange first. Idle sessions expire after CHAT_SESSION_TTL, and the least
+ * recently used one is evicted beyond CHAT_MAX_SESSIONS. In HTTP mode every
+ * MCP session (the `owner`) only sees its own chat sessions.
+ */
+export class ChatSessionStore {
+  private sessions = new Map<string, ChatSession>();
+  // Serializes turns per session so concurrent messages don't interleave
+  private turns = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private historyTokens: number = config.chat.historyTokens,
+    private maxSessions: number = config.chat.maxSessions,
+    private ttlMs: number = config.chat.sessionTtl * 1000
+  ) {}
+
+  private prune() {
+    const expiredBefore = Date.now() - this.ttlMs;
+    for (const [key, session] of this.sessions) {
+      if (session.updatedAt < expiredBefore) {
+        this.sessions.delete(key);
+        logger.debug('Chat session expired', { sessionId: session.id });
+      }
+    }
+  }
+
+  private open(owner: string | undefined, id: string | undefined, systemPrompt: string | undefined): ChatSession {
+    this.prune();
+    const existing = id ? this.sessions.get(keyOf(owner, id)) : undefined;
+    if (existing) {
+      if (systemPrompt !== undefined) existing.systemPrompt = systemPrompt;
+      return existing;
+    }
+
+    const now = Date.now();
+    const session: ChatSession = {
+      id: id ?? crypto.randomUUID(),
+      owner,
+      systemPrompt: systemPrompt ?? config.chat.systemPrompt,
+      messages: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.sessions.set(keyOf(owner, session.id), session);
+
+    // Map iteration follows insertion order and turns re-insert their session,
+    // so the first entry is the least recently used
+    if (this.sessions.size > this.maxSessions) {
+      const [oldestKey, oldest] = this.sessions.entries().next().value!;
+      this.sessions.delete(oldestKey);
+      logger.info('Chat session evicted', { sessionId: oldest.id, maxSessions: this.maxSessions });
+    }
+    return session;
+  }
+
+  // Keeps the most recent exchanges that fit the budget left by the system prompt and new message
+  private fitHistory(session: ChatSession, message: string): ChatMessage[] {
+    let budget = this.historyTokens - estimateTokens(message) - estimateTokens(session.systemPrompt ?? '');
+    const kept: ChatMessage[] = [];
+    for (let end = session.messages.length; end >= 2; end -= 2) {
+      const exchange = session.messages.slice(end - 2, end);
+      budget -= tokensOf(exchange);
+      if (budget < 0) break;
+      kept.unshift(...exchange);
+    }
+    return kept;
+  }
+
+  /**
+   * Sends `message` in `owner`'s session `id` (a new session when unset or
+   * unknown) and records the exchange once `complete` answers. A failed turn
+   * leaves the session as it was.
+   */
+  async send(
+    owner: string | undefined,
+    id: string | undefined,
+    message: string,
+    systemPrompt: string | undefined,
+    complete: (messages: ChatMessage[]) => Promise<string>
+  ): Promise<ChatTurnResult> {
+    const session = this.open(owner, id, systemPrompt);
+    const key = keyOf(owner, session.id);
+    const previous = this.turns.get(key) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.runTurn(session, message, complete));
+    this.turns.set(key, run);
+    try {
+      return await run;
+    } finally {
+      if (this.turns.get(key) === run) this.turns.delete(key);
+    }
+  }
+
+  private async runTurn(
+    session: ChatSession,
+    message: string,
+    complete: (messages: ChatMessage[]) => Promise<string>
+  ): Promise<ChatTurnResult> {
+    const history = this.fitHistory(session, message);
+    const trimmed = session.messages.length - history.length;
+    const messages: ChatMessage[] = [
+      ...(session.systemPrompt ? [{ role: 'system' as const, content: session.systemPrompt }] : []),
+      ...history,
+      { role: 'user', content: message }
+    ];
+
+    const reply = await complete(messages);
+
+    session.messages = [...history, { role: 'user', content: message }, { role: 'assistant', content: reply }];
+    session.updatedAt = Date.now();
+    // Deleted while the model was answering: don't bring it back
+    const key = keyOf(session.owner, session.id);
+    if (this.sessions.delete(key)) {
+      this.sessions.set(key, session);
+    }
+    if (trimmed > 0) {
+      logger.debug('Chat history trimmed', { sessionId: session.id, trimmed });
+    }
+
+    return {
+      sessionId: session.id,
+      reply,
+      messages: session.messages.length,
+      trimmed,
+      promptTokens: tokensOf(messages)
+    };
+  }
+
+  list(owner?: string): ChatSessionSummary[] {
+    this.prune();
+    return [...this.sessions.values()]
+      .filter(session => session.owner === owner)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(session => ({
+        id: session.id,
+        systemPrompt: session.systemPrompt,
+        messages: session.messages.length,
+        tokens: tokensOf(session.messages),
+        createdAt: new Date(session.createdAt).toISOString(),
+        updatedAt: new Date(session.updatedAt).toISOString()
+      }));
+  }
+
+  get(owner: string | undefined, id: string): ChatSession | undefined {
+    this.prune();
+    return this.sessions.get(keyOf(owner, id));
+  }
+
+  delete(owner: string | undefined, id: string) {
+    if (!this.sessions.delete(keyOf(owner, id))) {
+      throw new ValidationError(`Unknown chat session: ${id}`, 'sessionId', id);
+    }
+    logger.info('Chat session deleted', { sessionId: id });
+  }
+}
+
+export const chatSessions = new ChatSessionStore();
@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { chunkDocument, completeWithChunking, estimateTokens, MapReducePrompts } from './chunking.js';
+import type { LMStudioClient } from './lm-studio-client.js';
+
+const prompts: MapReducePrompts = {
+  single: content => `Summarize:\n${content}`,
+  map: (chunk, part, total) => `Summarize part ${part} of ${total}:\n${chunk}`,
+  reduce: partials => `Merge:\n${partials.join('\n')}`
+};
+
+// Answers every prompt with a short label and records the prompts
+function stubClient() {
+  const prompts: string[] = [];
+  const client = {
+    complete: async (prompt: string) => {
+      prompts.push(prompt);
+      return `answer ${prompts.length}`;
+    }
+  } as unknown as LMStudioClient;
+  return { client, prompts };
+}
+
+describe('chunkDocument', () => {
+  it('keeps a document that fits in one chunk', () => {
+    const text = '# Title\n\nShort body.';
+    expect(chunkDocument(text, 100)).toEqual([text]);
+  });
+
+  it('splits at headings and keeps every chunk within the budget', () => {
+    const section = (title: string) => `# ${title}\n\n${'word '.repeat(60).trim()}`;
+    const text = [section('One'), section('Two'), section('Three')].join('\n');
+    const chunks = chunkDocument(text, 100);
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks.map(chunk => chunk.split('\n')[0])).toEqual(['# One', '# Two', '# Three']);
+    expect(chunks.every(chunk => estimateTokens(chunk) <= 100)).toBe(true);
+  });
+
+  it('does not split at headings or blank lines inside a code fence', () => {
+    const fence = '```md\n# not a heading\n\nstill code\n```';
+    const text = `# Doc\n\n${'intro '.repeat(40)}\n\n${fence}\n\n${'outro '.repeat(40)}`;
+    const chunks = chunkDocument(text, 80);
+
+    expect(chunks.some(chunk => chunk.includes(fence))).toBe(true);
+    expect(chunks.some(chunk => chunk.startsWith('# not a heading'))).toBe(false);
+  });
+
+  it('cuts a single line longer than the budget', () => {
+    const line = 'x'.repeat(1000);
+    const chunks = chunkDocument(line, 50);
+
+    expect(chunks.join('')).toBe(line);
+    expect(chunks.every(chunk => estimateTokens(chunk) <= 50)).toBe(true);
+  });
+});
+
+describe('completeWithChunking', () => {
+  it('sends content that fits the context window in one request', async () => {
+    const { client, prompts: sent } = stubClient();
+    expect(await completeWithChunking(client, 'short text', prompts)).toBe('answer 1');
+    expect(sent).toEqual(['Summarize:\nshort text']);
+  });
+
+  it('maps each chunk and merges the partial results', async () => {
+    const { client, prompts: sent } = stubClient();
+    const paragraph = 'sentence '.repeat(500).trim();
+    const content = Array.from({ length: 8 }, (_, index) => `# Part ${index}\n\n${paragraph}`).join('\n\n');
+    const progress: string[] = [];
+
+    const result = await completeWithChunking(client, content, prompts, {
+      onProgress: (_current, _total, message) => progress.push(message!)
+    });
+
+    const maps = sent.filter(prompt => prompt.startsWith('Summarize part'));
+    expect(maps.length).toBeGreaterThan(1);
+    expect(sent.slice(maps.length).every(prompt => prompt.startsWith('Merge:'))).toBe(true);
+    expect(result).toBe(`answer ${sent.length}`);
+    expect(progress[0]).toBe(`Processing part 1 of ${maps.length}`);
+    expect(progress.at(-1)).toBe('Done');
+  });
+});
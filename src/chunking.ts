@@ -0,0 +1,289 @@
+import crypto from 'crypto';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { LMStudioClient, ProgressReporter } from './lm-studio-client.js';
+import type { ResponseFormat } from './providers.js';
+
+// Rough heuristic for English text and code; good enough to stay inside the window
+const CHARS_PER_TOKEN = 4;
+// Headroom for tokenizer differences and chat template overhead
+const SAFETY_MARGIN_TOKENS = 256;
+const MAX_REDUCE_DEPTH = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split text at block boundaries (blank lines), keeping fenced code blocks intact.
+ */
+function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of text.split('\n')) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1]! : (fence === fenceMatch[1] ? null : fence);
+    }
+
+    if (fence === null && line.trim() === '' && current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+  return blocks;
+}
+
+/**
+ * Split text into markdown sections, each starting at a heading.
+ * Headings inside fenced code blocks are ignored.
+ */
+function splitSections(text: string): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && /^#{1,6}\s/.test(line) && current.some(l => l.trim() !== '')) {
+      sections.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  }
+
+  if (current.length > 0) {
+    sections.push(current.join('\n'));
+  }
+  return sections;
+}
+
+function hardSplit(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const lines = text.split('\n');
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const line of lines) {
+    // A single line longer than the budget is cut by characters
+    for (let start = 0; start < Math.max(line.length, 1); start += maxChars) {
+      const segment = line.slice(start, start + maxChars);
+      if (current && current.length + segment.length + 1 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${segment}` : segment;
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+// Greedily pack pieces into chunks no larger than maxTokens
+function pack(pieces: string[], maxTokens: number, separator: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Split a document into chunks of at most maxTokens, preferring markdown
+ * heading boundaries, then blank-line blocks (never inside a code fence),
+ * then lines.
+ */
+export function chunkDocument(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+
+  for (const section of splitSections(text)) {
+    if (estimateTokens(section) <= maxTokens) {
+      pieces.push(section);
+      continue;
+    }
+    for (const block of splitBlocks(section)) {
+      if (estimateTokens(block) <= maxTokens) {
+        pieces.push(block);
+      } else {
+        pieces.push(...hardSplit(block, maxTokens));
+      }
+    }
+  }
+
+  return pack(pieces, maxTokens, '\n\n');
+}
+
+export interface MapReducePrompts {
+  // Prompt used when the whole document fits in one request
+  single: (content: string) => string;
+  // Prompt applied to each chunk
+  map: (chunk: string, part: number, total: number) => string;
+  // Prompt that merges the per-chunk results
+  reduce: (partials: string[]) => string;
+}
+
+// Label per-chunk results for a reduce prompt
+export function formatPartials(partials: string[]): string {
+  return partials.map((partial, index) => `Part ${index + 1}:\n${partial}`).join('\n\n');
+}
+
+export interface MapReduceOptions {
+  temperature?: number;
+  maxTokens?: number;
+  cacheKey?: string;
+  // Applied to the final output only; map and intermediate passes are free text
+  jsonSchema?: ResponseFormat;
+  validate?: (content: string) => boolean;
+  // Token progress for single-pass requests, phase progress for map-reduce
+  onProgress?: ProgressReporter;
+  signal?: AbortSignal;
+  waitForRateLimit?: boolean;
+}
+
+/**
+ * Complete a prompt over content that may exceed the model's context window.
+ * Small inputs go through a single request; larger ones are chunked, mapped
+ * chunk by chunk, and merged in one or more reduce passes.
+ */
+export async function completeWithChunking(
+  client: LMStudioClient,
+  content: string,
+  prompts: MapReducePrompts,
+  options: MapReduceOptions = {}
+): Promise<string> {
+  const contextTokens = config.lmStudio.contextTokens;
+  const outputReserve = Math.min(options.maxTokens ?? 1024, Math.floor(contextTokens / 2));
+  const inputBudget = contextTokens - outputReserve - SAFETY_MARGIN_TOKENS;
+  const fits = (prompt: string) => estimateTokens(prompt) <= inputBudget;
+
+  const { onProgress, ...completeOptions } = options;
+
+  const singlePrompt = prompts.single(content);
+  if (fits(singlePrompt)) {
+    return client.complete(singlePrompt, {
+      ...completeOptions,
+      onToken: onProgress && (tokens => onProgress(tokens, options.maxTokens, `Generated ${tokens} tokens`))
+    });
+  }
+
+  const chunkBudget = Math.max(inputBudget - estimateTokens(prompts.map('', 1, 1)), 256);
+  const chunks = chunkDocument(content, chunkBudget);
+  logger.info('Content exceeds context window, using map-reduce', {
+    contentTokens: estimateTokens(content),
+    contextTokens,
+    chunks: chunks.length
+  });
+
+  const subKey = (stage: string, text: string) => options.cacheKey
+    ? `${options.cacheKey}:${stage}:${crypto.createHash('sha256').update(text).digest('hex').slice(0, 16)}`
+    : undefined;
+
+  // Map sequentially: local backends usually serve one generation at a time
+  const totalSteps = chunks.length + 1;
+  const partials: string[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    onProgress?.(index, totalSteps, `Processing part ${index + 1} of ${chunks.length}`);
+    partials.push(await client.complete(prompts.map(chunk, index + 1, chunks.length), {
+      temperature: options.temperature,
+      maxTokens: outputReserve,
+      cacheKey: subKey('map', chunk),
+      signal: options.signal,
+      waitForRateLimit: options.waitForRateLimit
+    }));
+  }
+
+  onProgress?.(chunks.length, totalSteps, 'Merging partial results');
+  const result = await reduce(partials, 0);
+  onProgress?.(totalSteps, totalSteps, 'Done');
+  return result;
+
+  async function reduce(inputs: string[], depth: number): Promise<string> {
+    const prompt = prompts.reduce(inputs);
+    if (fits(prompt) || inputs.length <= 2 || depth >= MAX_REDUCE_DEPTH) {
+      return client.complete(prompt, {
+        ...completeOptions,
+        cacheKey: subKey('reduce', prompt)
+      });
+    }
+
+    // Too many partials for one pass: merge them in groups first
+    const overhead = estimateTokens(prompts.reduce([]));
+    let groups = packGroups(inputs, inputBudget - overhead);
+    if (groups.length >= inputs.length) {
+      groups = pairUp(inputs);
+    }
+
+    const merged: string[] = [];
+    for (const group of groups) {
+      if (group.length === 1) {
+        merged.push(group[0]!);
+        continue;
+      }
+      const groupPrompt = prompts.reduce(group);
+      merged.push(await client.complete(groupPrompt, {
+        temperature: options.temperature,
+        maxTokens: outputReserve,
+        cacheKey: subKey('reduce', groupPrompt),
+        signal: options.signal,
+        waitForRateLimit: options.waitForRateLimit
+      }));
+    }
+
+    return reduce(merged, depth + 1);
+  }
+}
+
+function packGroups(items: string[], maxTokens: number): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const item of items) {
+    const tokens = estimateTokens(item);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(item);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+}
+
+function pairUp(items: string[]): string[][] {
+  const pairs: string[][] = [];
+  for (let i = 0; i < items.length; i += 2) {
+    pairs.push(items.slice(i, i + 2));
+  }
+  return pairs;
+}
@@ -18,13 +18,26 @@ const ConfigSchema = z.object({
     maxRetries: z.number().int().positive().default(3),
     retryDelay: z.number().int().positive().default(1000),
     timeout: z.number().int().positive().default(30000), // 30 seconds
+    loadTimeout: z.number().int().positive().default(300000), // Loading and unloading models
     healthCheckInterval: z.number().int().positive().default(60000), // 1 minute
+    contextTokens: z.number().int().positive().default(4096), // Model context window
+  }),
+  provider: z.object({
+    type: z.enum(['lmstudio', 'ollama', 'openai-compatible']).default('lmstudio'),
+    baseUrl: z.string().url().optional(), // Falls back to the provider's default URL
+    apiKey: z.string().optional(), // Falls back to lmStudio.apiKey
   }),
   server: z.object({
     name: z.string().default('LMStudio'),
     version: z.string().default('1.0.0'),
     logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
     gracefulShutdownTimeout: z.number().int().positive().default(5000),
+    transport: z.enum(['stdio', 'http']).default('stdio'),
+    httpHost: z.string().default('127.0.0.1'),
+    httpPort: z.number().int().positive().default(3000),
+    httpAllowedHosts: z.array(z.string()).default(['localhost', '127.0.0.1', '[::1]']),
+    httpAllowedOrigins: z.array(z.string()).default([]), // Empty: the allowed hosts on httpPort
+    httpAuthToken: z.string().optional(),
   }),
   rateLimit: z.object({
     enabled: z.boolean().default(true),
@@ -35,15 +48,93 @@ const ConfigSchema = z.object({
     enabled: z.boolean().default(true),
     ttl: z.number().int().positive().default(300), // 5 minutes
     checkPeriod: z.number().int().positive().default(60), // 1 minute
+    backend: z.enum(['memory', 'file']).default('memory'),
+    dir: z.string().default(join(dirname(__dirname), '.cache', 'responses')),
+    maxEntries: z.number().int().positive().default(1000),
+    maxSizeMb: z.number().positive().default(100),
+    toolTtls: z.record(z.number().int().positive()).default({}), // seconds, per tool name
+  }),
+  semanticCache: z.object({
+    enabled: z.boolean().default(false),
+    threshold: z.number().min(0).max(1).default(0.97), // Minimum cosine similarity for an approximate hit
+    toolThresholds: z.record(z.number().min(0).max(1)).default({}), // per tool name
+    maxEntries: z.number().int().positive().default(1000),
+  }),
+  sandbox: z.object({
+    allowedRoots: z.array(z.string()).default([]),
+    allowedExtensions: z.array(z.string()).default(['.md', '.markdown', '.mdx', '.txt']),
+    maxFileSizeKb: z.number().int().positive().default(1024),
+  }),
+  prompts: z.object({
+    dir: z.string().default(join(dirname(__dirname), 'prompts')),
+  }),
+  customTools: z.object({
+    file: z.string().default(join(dirname(__dirname), 'custom-tools.yaml')),
+  }),
+  resources: z.object({
+    maxOutputs: z.number().int().positive().default(50),
+    pollInterval: z.number().int().positive().default(5000), // ms between change checks for subscriptions
+  }),
+  routing: z.object({
+    // Tool name -> candidate models, first loaded one wins
+    tools: z.record(z.array(z.string().min(1)).min(1)).default({}),
+    // Calls whose input reaches minTokens (estimated) go to these models instead
+    bySize: z.array(z.object({
+      minTokens: z.number().int().positive(),
+      models: z.array(z.string().min(1)).min(1),
+    })).default([]),
+  }),
+  embeddings: z.object({
+    model: z.string().optional(), // Defaults to the first loaded embedding model
+    batchSize: z.number().int().positive().default(32), // Texts per embeddings request
+  }),
+  search: z.object({
+    indexDir: z.string().default(join(dirname(__dirname), '.cache', 'index')),
+    extensions: z.array(z.string()).default([
+      '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt', '.c', '.h', '.cpp', '.hpp',
+      '.cs', '.rb', '.php', '.swift', '.scala', '.sh', '.sql', '.md', '.markdown', '.mdx', '.txt', '.yaml', '.yml', '.toml',
+    ]),
+    chunkLines: z.number().int().positive().default(40),
+    chunkOverlap: z.number().int().nonnegative().default(8),
+    maxFiles: z.number().int().positive().default(5000),
+  }),
+  chat: z.object({
+    systemPrompt: z.string().optional(), // For sessions started without one
+    historyTokens: z.number().int().positive().default(3072), // Estimated tokens of history sent per turn
+    maxSessions: z.number().int().positive().default(100),
+    sessionTtl: z.number().int().positive().default(3600), // seconds a session may sit idle
+  }),
+  batch: z.object({
+    maxFiles: z.number().int().positive().default(500),
+    concurrency: z.number().int().positive().default(2),
   }),
   monitoring: z.object({
-    metricsEnabled: z.boolean().default(true),
+    metricsEnabled: z.boolean().default(false),
+    metricsHost: z.string().default('127.0.0.1'),
     metricsPort: z.number().int().positive().default(9090),
   }),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+// Parses comma-separated environment variables; undefined when unset
+function parseList(raw: string | undefined): string[] | undefined {
+  if (!raw) return undefined;
+  return raw.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Parses "a=1,b=2" style environment variables
+function parseKeyValueList<T>(raw: string | undefined, parseValue: (value: string) => T): Record<string, T> {
+  const result: Record<string, T> = {};
+  for (const pair of (raw || '').split(',')) {
+    const [key, value] = pair.split('=').map(part => part.trim());
+    if (key && value) {
+      result[key] = parseValue(value);
+    }
+  }
+  return result;
+}
+
 // Parse and validate configuration
 function loadConfig(): Config {
   try {
@@ -55,13 +146,26 @@ function loadConfig(): Config {
         maxRetries: parseInt(process.env.LM_STUDIO_MAX_RETRIES || '3'),
         retryDelay: parseInt(process.env.LM_STUDIO_RETRY_DELAY || '1000'),
         timeout: parseInt(process.env.LM_STUDIO_TIMEOUT || '30000'),
+        loadTimeout: parseInt(process.env.LM_STUDIO_LOAD_TIMEOUT || '300000'),
         healthCheckInterval: parseInt(process.env.HEALTH_CHECK_INTERVAL || '60000'),
+        contextTokens: parseInt(process.env.LM_STUDIO_CONTEXT_TOKENS || '4096'),
+      },
+      provider: {
+        type: process.env.LLM_PROVIDER || 'lmstudio',
+        baseUrl: process.env.LLM_PROVIDER_URL || undefined,
+        apiKey: process.env.LLM_PROVIDER_API_KEY || undefined,
       },
       server: {
         name: process.env.SERVER_NAME || 'LMStudio',
         version: process.env.SERVER_VERSION || '1.0.0',
         logLevel: process.env.LOG_LEVEL || 'info',
         gracefulShutdownTimeout: parseInt(process.env.GRACEFUL_SHUTDOWN_TIMEOUT || '5000'),
+        transport: process.env.MCP_TRANSPORT || 'stdio',
+        httpHost: process.env.MCP_HTTP_HOST || '127.0.0.1',
+        httpPort: parseInt(process.env.MCP_HTTP_PORT || '3000'),
+        httpAllowedHosts: parseList(process.env.MCP_HTTP_ALLOWED_HOSTS),
+        httpAllowedOrigins: parseList(process.env.MCP_HTTP_ALLOWED_ORIGINS),
+        httpAuthToken: process.env.MCP_HTTP_AUTH_TOKEN || undefined,
       },
       rateLimit: {
         enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
@@ -72,9 +176,62 @@ function loadConfig(): Config {
         enabled: process.env.CACHE_ENABLED !== 'false',
         ttl: parseInt(process.env.CACHE_TTL || '300'),
         checkPeriod: parseInt(process.env.CACHE_CHECK_PERIOD || '60'),
+        backend: process.env.CACHE_BACKEND || 'memory',
+        dir: process.env.CACHE_DIR || undefined,
+        maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '1000'),
+        maxSizeMb: parseFloat(process.env.CACHE_MAX_SIZE_MB || '100'),
+        toolTtls: parseKeyValueList(process.env.CACHE_TOOL_TTLS, value => parseInt(value)),
+      },
+      semanticCache: {
+        enabled: process.env.SEMANTIC_CACHE_ENABLED === 'true',
+        threshold: parseFloat(process.env.SEMANTIC_CACHE_THRESHOLD || '0.97'),
+        toolThresholds: parseKeyValueList(process.env.SEMANTIC_CACHE_TOOL_THRESHOLDS, value => parseFloat(value)),
+        maxEntries: parseInt(process.env.SEMANTIC_CACHE_MAX_ENTRIES || '1000'),
+      },
+      sandbox: {
+        allowedRoots: parseList(process.env.ALLOWED_ROOTS) ?? [process.cwd()],
+        allowedExtensions: parseList(process.env.ALLOWED_EXTENSIONS),
+        maxFileSizeKb: parseInt(process.env.MAX_FILE_SIZE_KB || '1024'),
+      },
+      prompts: {
+        dir: process.env.PROMPT_TEMPLATES_DIR || undefined,
+      },
+      customTools: {
+        file: process.env.CUSTOM_TOOLS_FILE || undefined,
+      },
+      resources: {
+        maxOutputs: parseInt(process.env.RESOURCE_MAX_OUTPUTS || '50'),
+        pollInterval: parseInt(process.env.RESOURCE_POLL_INTERVAL || '5000'),
+      },
+      routing: {
+        tools: parseKeyValueList(process.env.MODEL_ROUTES, value => value.split('|')),
+        bySize: Object.entries(parseKeyValueList(process.env.MODEL_ROUTES_BY_SIZE, value => value.split('|')))
+          .map(([minTokens, models]) => ({ minTokens: parseInt(minTokens), models })),
+      },
+      embeddings: {
+        model: process.env.EMBEDDING_MODEL || undefined,
+        batchSize: parseInt(process.env.EMBEDDING_BATCH_SIZE || '32'),
+      },
+      search: {
+        indexDir: process.env.SEARCH_INDEX_DIR || undefined,
+        extensions: parseList(process.env.SEARCH_EXTENSIONS),
+        chunkLines: parseInt(process.env.SEARCH_CHUNK_LINES || '40'),
+        chunkOverlap: parseInt(process.env.SEARCH_CHUNK_OVERLAP || '8'),
+        maxFiles: parseInt(process.env.SEARCH_MAX_FILES || '5000'),
+      },
+      chat: {
+        systemPrompt: process.env.CHAT_SYSTEM_PROMPT || undefined,
+        historyTokens: parseInt(process.env.CHAT_HISTORY_TOKENS || '3072'),
+        maxSessions: parseInt(process.env.CHAT_MAX_SESSIONS || '100'),
+        sessionTtl: parseInt(process.env.CHAT_SESSION_TTL || '3600'),
+      },
+      batch: {
+        maxFiles: parseInt(process.env.BATCH_MAX_FILES || '500'),
+        concurrency: parseInt(process.env.BATCH_CONCURRENCY || '2'),
       },
       monitoring: {
-        metricsEnabled: process.env.METRICS_ENABLED !== 'false',
+        metricsEnabled: process.env.METRICS_ENABLED === 'true',
+        metricsHost: process.env.METRICS_HOST || '127.0.0.1',
         metricsPort: parseInt(process.env.METRICS_PORT || '9090'),
       },
     });
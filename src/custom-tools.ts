@@ -0,0 +1,195 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { prompts, variablesOf } from './prompts.js';
+import { completeJson, matchesSpec, toResponseFormat, StructuredOutputSpec } from './structured-output.js';
+import { Tool, getToolByName, registerTool, generateCacheKey, renderPrompt, tokenProgress } from './tools.js';
+import { CustomToolDefinitionSchema, CustomToolsFileSchema, sanitizeInput } from './validation.js';
+
+export type CustomToolDefinition = z.infer<typeof CustomToolDefinitionSchema>;
+
+/**
+ * Convert the subset of JSON Schema used in tool definitions (string, number,
+ * integer, boolean, array, object; enum, bounds, required, default) to zod.
+ */
+export function jsonSchemaToZod(schema: Record<string, any>, at: string): z.ZodTypeAny {
+  let result: z.ZodTypeAny;
+
+  switch (schema.type) {
+    case 'string': {
+      if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+        result = z.enum(schema.enum as [string, ...string[]]);
+        break;
+      }
+      let string = z.string();
+      if (typeof schema.minLength === 'number') string = string.min(schema.minLength);
+      if (typeof schema.maxLength === 'number') string = string.max(schema.maxLength);
+      result = string;
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      let number = schema.type === 'integer' ? z.number().int() : z.number();
+      if (typeof schema.minimum === 'number') number = number.min(schema.minimum);
+      if (typeof schema.maximum === 'number') number = number.max(schema.maximum);
+      result = number;
+      break;
+    }
+    case 'boolean':
+      result = z.boolean();
+      break;
+    case 'array': {
+      let array = z.array(schema.items ? jsonSchemaToZod(schema.items, `${at}.items`) : z.unknown());
+      if (typeof schema.maxItems === 'number') array = array.max(schema.maxItems);
+      result = array;
+      break;
+    }
+    case 'object': {
+      const required = new Set<string>(schema.required ?? []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, property] of Object.entries<Record<string, any>>(schema.properties ?? {})) {
+        const field = jsonSchemaToZod(property, `${at}.${key}`);
+        shape[key] = required.has(key) || property.default !== undefined ? field : field.optional();
+      }
+      result = z.object(shape);
+      break;
+    }
+    default:
+      throw new Error(`${at}: unsupported type '${schema.type}'`);
+  }
+
+  return schema.default !== undefined ? result.default(schema.default) : result;
+}
+
+// Arrays of strings read naturally as a comma-separated list; other values as JSON
+function formatVariable(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return sanitizeInput(value);
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.map(item => sanitizeInput(item)).join(', ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+}
+
+function buildTool(definition: CustomToolDefinition): Tool {
+  const validator = jsonSchemaToZod(definition.inputSchema, 'inputSchema');
+  const variables = Object.keys(definition.inputSchema.properties);
+  const templateId = `${definition.name}.prompt`;
+
+  const output: StructuredOutputSpec<unknown> | undefined = definition.output === 'json'
+    ? {
+        name: `${definition.name}_output`,
+        schema: definition.outputSchema ?? { type: 'object' },
+        validator: definition.outputSchema ? jsonSchemaToZod(definition.outputSchema, 'outputSchema') : z.unknown()
+      }
+    : undefined;
+
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: definition.inputSchema,
+    cacheable: definition.cacheable,
+    handler: async (args, client, context) => {
+      const validated = validator.parse(args) as Record<string, unknown>;
+      const prompt = renderPrompt(client, templateId,
+        Object.fromEntries(variables.map(name => [name, formatVariable(validated[name])])));
+
+      const { temperature, maxTokens } = definition;
+      const cacheKey = definition.cacheable ? generateCacheKey(definition.name, validated) : undefined;
+
+      if (output) {
+        const result = await completeJson(client, output, () => client.complete(prompt, {
+          temperature,
+          maxTokens,
+          cacheKey,
+          jsonSchema: toResponseFormat(output),
+          validate: matchesSpec(output),
+          signal: context?.signal
+        }), { maxTokens, signal: context?.signal });
+        return JSON.stringify(result, null, 2);
+      }
+
+      return await client.complete(prompt, {
+        temperature,
+        maxTokens,
+        cacheKey,
+        onToken: tokenProgress(context, maxTokens),
+        signal: context?.signal
+      });
+    }
+  };
+}
+
+/**
+ * Register the tools defined in `file` (YAML or JSON) alongside the built-ins.
+ * Each tool's prompt becomes the `<name>.prompt` template, so it can be
+ * overridden per model like any other. All problems are reported at once.
+ */
+export async function loadCustomTools(file: string = config.customTools.file): Promise<void> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.debug('No custom tools file', { file });
+      return;
+    }
+    throw error;
+  }
+
+  const parsed = CustomToolsFileSchema.safeParse(path.extname(file) === '.json' ? JSON.parse(raw) : YAML.parse(raw));
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid custom tools file ${file}:\n${issues.join('\n')}`);
+  }
+
+  const problems: string[] = [];
+  const built: Array<{ definition: CustomToolDefinition; tool: Tool }> = [];
+  const names = new Set<string>();
+
+  for (const definition of parsed.data.tools) {
+    if (getToolByName(definition.name) || names.has(definition.name)) {
+      problems.push(`${definition.name}: a tool with this name already exists`);
+      continue;
+    }
+    names.add(definition.name);
+
+    const properties = Object.keys(definition.inputSchema.properties);
+    if (properties.includes('model')) {
+      problems.push(`${definition.name}: 'model' is reserved for choosing the model per call`);
+      continue;
+    }
+    const unknown = [...variablesOf(definition.prompt)].filter(name => !properties.includes(name));
+    if (unknown.length > 0) {
+      problems.push(`${definition.name}: prompt uses ${unknown.join(', ')}, which are not input properties`);
+      continue;
+    }
+
+    try {
+      built.push({ definition, tool: buildTool(definition) });
+    } catch (error) {
+      problems.push(`${definition.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid custom tools file ${file}:\n${problems.join('\n')}`);
+  }
+
+  for (const { definition, tool } of built) {
+    registerTool(tool);
+    prompts.register(`${definition.name}.prompt`, {
+      version: definition.version,
+      template: definition.prompt,
+      variables: Object.keys(definition.inputSchema.properties)
+    });
+  }
+
+  logger.info('Loaded custom tools', {
+    file,
+    tools: built.map(({ definition }) => ({ name: definition.name, version: definition.version }))
+  });
+}
@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { config } from './config.js';
+import { createProvider } from './providers.js';
 
 /**
  * Standalone health check script for monitoring
@@ -8,26 +8,15 @@ import { config } from './config.js';
  */
 
 async function checkHealth(): Promise<boolean> {
-  try {
-    const response = await fetch(`${config.lmStudio.baseUrl}/v1/models`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${config.lmStudio.apiKey}`
-      },
-      signal: AbortSignal.timeout(5000)
-    });
+  const provider = createProvider();
 
-    if (response.ok) {
-      const data = await response.json() as any;
-      console.log('✓ LM Studio is healthy');
-      console.log(`  Models available: ${data.data?.length || 0}`);
-      return true;
-    } else {
-      console.error('✗ LM Studio returned error:', response.status);
-      return false;
-    }
+  try {
+    const models = await provider.listModels();
+    console.log(`✓ ${provider.type} backend is healthy (${provider.baseUrl})`);
+    console.log(`  Models available: ${models.length}`);
+    return true;
   } catch (error) {
-    console.error('✗ Failed to connect to LM Studio:', error);
+    console.error(`✗ Failed to connect to ${provider.type} backend at ${provider.baseUrl}:`, error);
     return false;
   }
 }
@@ -38,4 +27,4 @@ checkHealth().then(healthy => {
 }).catch(error => {
   console.error('Health check failed:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,90 @@
+import http from 'http';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpTransportHost } from './http-transport.js';
+
+const TOKEN = 'secret-token';
+
+// A port that was free a moment ago
+async function freePort(): Promise<number> {
+  const probe = http.createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = probe.address() as { port: number };
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+describe('HttpTransportHost', () => {
+  let host: HttpTransportHost;
+  let port: number;
+
+  const post = (body: string, headers: Record<string, string> = {}) =>
+    new Promise<{ status: number; body: any }>((resolve, reject) => {
+      const request = http.request({
+        host: '127.0.0.1',
+        port,
+        path: '/mcp',
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+          authorization: `Bearer ${TOKEN}`,
+          ...headers
+        }
+      }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', chunk => chunks.push(chunk));
+        response.on('end', () => {
+          const text = Buffer.concat(chunks).toString('utf-8');
+          resolve({ status: response.statusCode!, body: text.startsWith('{') ? JSON.parse(text) : text });
+        });
+      });
+      request.on('error', reject);
+      // With a larger content-length than sent, the server must answer without waiting for the rest
+      if (headers['content-length']) {
+        request.write(body);
+      } else {
+        request.end(body);
+      }
+    });
+
+  beforeAll(async () => {
+    port = await freePort();
+    host = new HttpTransportHost(
+      () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} }),
+      '127.0.0.1',
+      port,
+      { allowedHosts: ['localhost', '127.0.0.1'], allowedOrigins: [], authToken: TOKEN }
+    );
+    await host.start();
+  });
+
+  afterAll(() => host.close());
+
+  it('initializes a session', async () => {
+    const response = await post(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    }));
+    expect(response.status).toBe(200);
+  });
+
+  it('refuses requests without the token or from other hosts and origins', async () => {
+    expect((await post('{}', { authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await post('{}', { host: `evil.example:${port}` })).status).toBe(403);
+    expect((await post('{}', { origin: 'http://evil.example' })).status).toBe(403);
+  });
+
+  it('answers malformed JSON with a parse error', async () => {
+    const response = await post('{bad');
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe(-32700);
+  });
+
+  it('answers oversized bodies with 413 before reading them', async () => {
+    const response = await post('{}', { 'content-length': String(5 * 1024 * 1024) });
+    expect(response.status).toBe(413);
+  });
+});
@@ -0,0 +1,294 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import crypto from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+export interface HttpAccessOptions {
+  // Host names (without port) the Host header may name
+  allowedHosts: string[];
+  // Origins browser requests may come from; defaults to the allowed hosts on this port
+  allowedOrigins: string[];
+  // When set, every request must send `Authorization: Bearer <token>`
+  authToken?: string;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024; // 4MB
+
+// A request body the client got wrong, answered with `status` and JSON-RPC `code`
+class RequestBodyError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: number) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () => new RequestBodyError(`Request body exceeds ${MAX_BODY_BYTES} bytes`, 413, -32000);
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    return Promise.reject(tooLarge());
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading but keep the socket open, so the 413 can still be sent
+        req.off('data', onData);
+        req.pause();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('error', reject);
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf-8');
+      try {
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch (error) {
+        reject(new RequestBodyError(`Parse error: ${(error as Error).message}`, 400, -32700));
+      }
+    });
+  });
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code = -32000) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+}
+
+function sha256(text: string): Buffer {
+  return crypto.createHash('sha256').update(text).digest();
+}
+
+/**
+ * Serves MCP over HTTP so several clients can share one bridge process.
+ *
+ * - `/mcp`: Streamable HTTP (POST/GET/DELETE, `mcp-session-id` header)
+ * - `/sse` + `/messages`: legacy HTTP+SSE transport for older clients
+ *
+ * Each session gets its own MCP Server instance from `createServer`.
+ * Requests must name an allowed Host and, from browsers, come from an allowed
+ * Origin, so a web page can't reach the bridge through DNS rebinding.
+ */
+export class HttpTransportHost {
+  private httpServer?: http.Server;
+  private sessions = new Map<string, Session>();
+  private allowedHosts: Set<string>;
+  private allowedOrigins: Set<string>;
+
+  constructor(
+    private createServer: () => Server,
+    private host: string,
+    private port: number,
+    private access: HttpAccessOptions
+  ) {
+    const hosts = access.allowedHosts.map(name => name.toLowerCase());
+    this.allowedHosts = new Set(hosts);
+    this.allowedOrigins = new Set(access.allowedOrigins.length > 0
+      ? access.allowedOrigins
+      : hosts.map(name => `http://${name}:${port}`));
+  }
+
+  // The SDK transports repeat the Host and Origin checks; they compare the
+  // Host header as sent, with or without the port
+  private get transportProtection() {
+    return {
+      enableDnsRebindingProtection: true,
+      allowedHosts: [...this.allowedHosts].flatMap(name => [name, `${name}:${this.port}`]),
+      allowedOrigins: [...this.allowedOrigins]
+    };
+  }
+
+  // Why the request is refused, if it is
+  private checkAccess(req: IncomingMessage): { status: number; message: string } | undefined {
+    const hostHeader = req.headers.host;
+    let hostname: string | undefined;
+    try {
+      hostname = hostHeader ? new URL(`http://${hostHeader}`).hostname.toLowerCase() : undefined;
+    } catch {
+      hostname = undefined;
+    }
+    if (!hostname || !this.allowedHosts.has(hostname)) {
+      return { status: 403, message: `Invalid Host header: ${hostHeader}` };
+    }
+
+    // Only browsers send Origin; other clients are covered by the Host check
+    const origin = req.headers.origin;
+    if (origin && !this.allowedOrigins.has(origin)) {
+      return { status: 403, message: `Invalid Origin header: ${origin}` };
+    }
+
+    if (this.access.authToken) {
+      const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+      // Compared as digests: equal length, and timing doesn't reveal the token
+      if (!match || !crypto.timingSafeEqual(sha256(match[1]!), sha256(this.access.authToken))) {
+        return { status: 401, message: 'Missing or invalid bearer token' };
+      }
+    }
+    return undefined;
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async start(): Promise<void> {
+    this.httpServer = http.createServer((req, res) => {
+      this.route(req, res).catch(error => {
+        if (error instanceof RequestBodyError) {
+          logger.warn('Rejected HTTP request body', { reason: error.message, url: req.url, remote: req.socket?.remoteAddress });
+          if (!res.headersSent) {
+            // The rest of an oversized body is never read, so don't reuse the connection
+            if (error.status === 413) res.setHeader('Connection', 'close');
+            sendJsonRpcError(res, error.status, error.message, error.code);
+          }
+          return;
+        }
+        logger.error('HTTP transport request failed', {
+          error: error instanceof Error ? error.stack ?? error.message : error,
+          url: req.url
+        });
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.port, this.host, () => resolve());
+    });
+
+    logger.info('HTTP transport listening', {
+      url: `http://${this.host}:${this.port}/mcp`,
+      sseUrl: `http://${this.host}:${this.port}/sse`
+    });
+  }
+
+  async close(): Promise<void> {
+    for (const [sessionId, session] of this.sessions) {
+      try {
+        await session.transport.close();
+      } catch (error) {
+        logger.warn('Failed to close session transport', { sessionId, error });
+      }
+    }
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      await new Promise<void>(resolve => this.httpServer!.close(() => resolve()));
+    }
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const refused = this.checkAccess(req);
+    if (refused) {
+      logger.warn('HTTP request refused', { reason: refused.message, url: req.url, remote: req.socket.remoteAddress });
+      if (refused.status === 401) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+      }
+      return sendJsonRpcError(res, refused.status, refused.message);
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    switch (url.pathname) {
+      case '/mcp':
+        return this.handleStreamableHttp(req, res);
+      case '/sse':
+        return this.handleSseConnect(req, res);
+      case '/messages':
+        return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      default:
+        res.writeHead(404).end('Not found');
+    }
+  }
+
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        return sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+      }
+      return session.transport.handleRequest(req, res, body);
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      return sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      ...this.transportProtection,
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport });
+        logger.info('MCP session opened', { sessionId: id, transport: 'streamable-http' });
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+        logger.info('MCP session closed', { sessionId: transport.sessionId });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      res.writeHead(405).end('Method not allowed');
+      return;
+    }
+
+    const server = this.createServer();
+    const transport = new SSEServerTransport('/messages', res, this.transportProtection);
+    this.sessions.set(transport.sessionId, { server, transport });
+    logger.info('MCP session opened', { sessionId: transport.sessionId, transport: 'sse' });
+
+    transport.onclose = () => {
+      this.sessions.delete(transport.sessionId);
+      logger.info('MCP session closed', { sessionId: transport.sessionId });
+    };
+
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      res.writeHead(404).end(`Unknown session: ${sessionId}`);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+}
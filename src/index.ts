@@ -3,53 +3,200 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { 
   ListToolsRequestSchema,
   CallToolRequestSchema,
-  Tool as MCPTool
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+  Tool as MCPTool,
+  RootsListChangedNotificationSchema,
+  ServerRequest,
+  ServerNotification
 } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { config } from './config.js';
 import { logger, logPerformance } from './logger.js';
 import { LMStudioClient } from './lm-studio-client.js';
-import { tools, getToolByName, validateToolInput } from './tools.js';
-import { ValidationError } from './validation.js';
+import { tools, getToolByName, validateToolInput, ToolContext } from './tools.js';
+import { ValidationError, CancelledError, ModelArgumentSchema } from './validation.js';
+import { HttpTransportHost } from './http-transport.js';
+import { FileSandbox } from './sandbox.js';
+import { prompts } from './prompts.js';
+import { loadCustomTools } from './custom-tools.js';
+import { mcpPrompts, getMcpPrompt } from './mcp-prompts.js';
+import { ResourceHub } from './resources.js';
+import { routeModel, checkRoutes } from './routing.js';
+import { startMetricsServer, toolCalls, toolDuration, errors, classifyError } from './metrics.js';
+import http from 'http';
+import { ZodError } from 'zod';
 import crypto from 'crypto';
 
+// Added to the input schema of every tool that calls the model
+const MODEL_ARGUMENT = {
+  type: 'string',
+  description: 'Model to run this call on (see list_models); defaults to the configured model'
+};
+
+const PROGRESS_THROTTLE_MS = 250;
+
 class LMStudioMCPServer {
-  private server: Server;
   private lmStudioClient: LMStudioClient;
   private transport?: StdioServerTransport;
+  private httpHost?: HttpTransportHost;
+  private metricsServer?: http.Server;
+  private resources: ResourceHub;
   private isShuttingDown = false;
+  // Shared across all sessions so shutdown drains every client's calls
   private activeRequests = new Set<string>();
 
   constructor() {
-    this.server = new Server({
+    this.lmStudioClient = new LMStudioClient();
+    this.resources = new ResourceHub(this.lmStudioClient);
+    this.setupSignalHandlers();
+  }
+
+  // One Server per transport session; HTTP mode creates one per client
+  private createServer(): Server {
+    const server = new Server({
       name: config.server.name,
       version: config.server.version,
     }, {
       capabilities: {
-        tools: {}
+        tools: {},
+        prompts: {},
+        resources: { subscribe: true, listChanged: true }
       }
     });
 
-    this.lmStudioClient = new LMStudioClient();
-    this.setupHandlers();
-    this.setupSignalHandlers();
+    // Each session's sandbox also admits the roots its client exposes
+    const sandbox = new FileSandbox();
+    server.oninitialized = () => this.refreshRoots(server, sandbox);
+    server.setNotificationHandler(RootsListChangedNotificationSchema, () => this.refreshRoots(server, sandbox));
+
+    this.setupHandlers(server, sandbox);
+    this.setupResourceHandlers(server);
+    return server;
   }
 
-  private setupHandlers() {
+  private setupResourceHandlers(server: Server) {
+    const subscriptions = new Set<string>();
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => ({
+      resources: this.resources.list(extra.sessionId)
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      try {
+        return { contents: [await this.resources.read(request.params.uri, extra.sessionId)] };
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw error;
+      }
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      if (!this.resources.isKnown(request.params.uri)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+      }
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    const onUpdated = (uri: string) => {
+      if (subscriptions.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch(error => logger.debug('Failed to send resource update', { uri, error }));
+      }
+    };
+    const onListChanged = (sessionId?: string) => {
+      if (sessionId === server.transport?.sessionId) {
+        server.sendResourceListChanged().catch(error => logger.debug('Failed to send resource list change', { error }));
+      }
+    };
+    this.resources.on('updated', onUpdated);
+    this.resources.on('listChanged', onListChanged);
+    server.onclose = () => {
+      this.resources.off('updated', onUpdated);
+      this.resources.off('listChanged', onListChanged);
+    };
+  }
+
+  private async refreshRoots(server: Server, sandbox: FileSandbox) {
+    if (!server.getClientCapabilities()?.roots) {
+      return;
+    }
+
+    try {
+      const { roots } = await server.listRoots();
+      sandbox.setClientRoots(roots.map(root => root.uri));
+    } catch (error) {
+      logger.warn('Failed to fetch client roots', { error });
+    }
+  }
+
+  private setupHandlers(server: Server, sandbox: FileSandbox) {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       logger.info('Listing available tools');
       
       const mcpTools: MCPTool[] = tools.map(tool => ({
         name: tool.name,
         description: tool.description,
-        inputSchema: tool.inputSchema as any
+        inputSchema: (tool.usesModel === false
+          ? tool.inputSchema
+          : { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, model: MODEL_ARGUMENT } }) as any
       }));
 
       return { tools: mcpTools };
     });
 
+    // Tool prompt templates, for clients to run on their own model
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      logger.info('Listing available prompts');
+      return {
+        prompts: mcpPrompts.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }))
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      logger.info('Prompt requested', { prompt: name });
+
+      const prompt = getMcpPrompt(name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+
+      let text: string;
+      try {
+        text = await prompt.build(args ?? {}, this.lmStudioClient, sandbox);
+      } catch (error) {
+        if (error instanceof ValidationError || error instanceof ZodError) {
+          const detail = error instanceof ZodError
+            ? error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+            : error.message;
+          throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${detail}`);
+        }
+        throw error;
+      }
+
+      return {
+        description: prompt.description,
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }]
+      };
+    });
+
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const requestId = crypto.randomUUID();
       this.activeRequests.add(requestId);
       const startTime = Date.now();
@@ -60,7 +207,7 @@ class LMStudioMCPServer {
         }
 
         const { name, arguments: args } = request.params;
-        logger.info('Tool call received', { requestId, tool: name });
+        logger.info('Tool call received', { requestId, sessionId: extra.sessionId, tool: name });
 
         // Find the tool
         const tool = getToolByName(name);
@@ -69,14 +216,24 @@ class LMStudioMCPServer {
         }
 
         // Validate input
+        let model: string | undefined;
         try {
           validateToolInput(name, args || {});
+          if (tool.usesModel !== false) {
+            const parsed = ModelArgumentSchema.safeParse(args?.model);
+            if (!parsed.success) {
+              throw new ValidationError('model must be a non-empty model id', 'model', args?.model);
+            }
+            model = parsed.data;
+          }
         } catch (error) {
           if (error instanceof ValidationError) {
             logger.warn('Input validation failed', { 
               requestId,
               error: error.message 
             });
+            toolCalls.inc({ tool: name, status: 'invalid' });
+            errors.inc({ kind: 'validation' });
             return {
               content: [{
                 type: 'text' as const,
@@ -94,11 +251,18 @@ class LMStudioMCPServer {
           tool: name 
         });
 
-        const response = await tool.handler(args || {}, this.lmStudioClient);
+        const context = this.createToolContext(requestId, extra, sandbox);
+        const run = () => tool.handler(args || {}, this.lmStudioClient, context);
+        const route = tool.usesModel === false ? undefined : routeModel(name, args || {}, this.lmStudioClient, model);
+        const served = route && await this.lmStudioClient.withModel(route.model, run);
+        const response = served ? served.result : await run();
 
         logger.info('Tool execution successful', { 
           requestId,
           tool: name,
+          model: served?.model,
+          approximate: (served?.semanticHits.length ?? 0) > 0,
+          ...(served && { prompts: prompts.versions(name, served.model) }),
           responseLength: response.length,
           duration: Date.now() - startTime
         });
@@ -107,21 +271,56 @@ class LMStudioMCPServer {
           requestId,
           success: true 
         });
+        toolCalls.inc({ tool: name, status: 'success' });
+        toolDuration.observe({ tool: name }, (Date.now() - startTime) / 1000);
+        // Kept so the client can re-read long outputs as a resource
+        this.resources.recordOutput(requestId, name, response, extra.sessionId);
 
         return {
           content: [{
             type: 'text' as const,
             text: response
-          }]
+          }],
+          _meta: {
+            resourceUri: this.resources.outputUri(requestId),
+            // The model the call ran on, why it was chosen, and the ids the backend answered with
+            ...(served && { model: served.model, route: route?.rule, servedBy: served.servedBy }),
+            // Answered (at least partly) from the cached response to a similar prompt
+            ...(served && served.semanticHits.length > 0 && {
+              approximate: true,
+              similarity: Math.min(...served.semanticHits)
+            })
+          }
         };
 
       } catch (error) {
+        if (error instanceof CancelledError || extra.signal.aborted) {
+          logger.info('Tool call cancelled by client', {
+            requestId,
+            tool: request.params.name,
+            duration: Date.now() - startTime
+          });
+          toolCalls.inc({ tool: request.params.name, status: 'cancelled' });
+
+          // The SDK drops responses to cancelled requests; this only satisfies the handler type
+          return {
+            content: [{
+              type: 'text' as const,
+              text: 'Cancelled'
+            }],
+            isError: true
+          };
+        }
+
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         logger.error('Tool execution error', {
           requestId,
           tool: request.params.name,
           error: errorMessage
         });
+        toolCalls.inc({ tool: request.params.name, status: 'error' });
+        toolDuration.observe({ tool: request.params.name }, (Date.now() - startTime) / 1000);
+        errors.inc({ kind: classifyError(error) });
 
         return {
           content: [{
@@ -136,6 +335,41 @@ class LMStudioMCPServer {
     });
   }
 
+  private createToolContext(
+    requestId: string,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    sandbox: FileSandbox
+  ): ToolContext {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return { signal: extra.signal, sandbox, mcpSessionId: extra.sessionId };
+    }
+
+    // Progress must increase monotonically; token updates are throttled
+    let lastProgress = -1;
+    let lastSent = 0;
+    return {
+      signal: extra.signal,
+      sandbox,
+      mcpSessionId: extra.sessionId,
+      reportProgress: (progress, total, message) => {
+        const now = Date.now();
+        if (progress <= lastProgress || (now - lastSent < PROGRESS_THROTTLE_MS && progress !== total)) {
+          return;
+        }
+        lastProgress = progress;
+        lastSent = now;
+
+        extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress, total, message }
+        }).catch(error => {
+          logger.debug('Failed to send progress notification', { requestId, error });
+        });
+      }
+    };
+  }
+
   private setupSignalHandlers() {
     const gracefulShutdown = async (signal: string) => {
       logger.info(`Received ${signal}, starting graceful shutdown`);
@@ -158,6 +392,14 @@ class LMStudioMCPServer {
       if (this.transport) {
         await this.transport.close();
       }
+
+      if (this.httpHost) {
+        await this.httpHost.close();
+      }
+
+      this.metricsServer?.close();
+      this.resources.stop();
+      await this.lmStudioClient.shutdown();
       
       logger.info('Graceful shutdown complete');
       process.exit(0);
@@ -169,16 +411,52 @@ class LMStudioMCPServer {
 
   async start() {
     try {
+      // Fail fast on invalid tool definitions or prompt overrides rather than
+      // at the first tool call. Custom tools first: overrides may target them.
+      await loadCustomTools();
+      await prompts.load();
+      checkRoutes(tools.map(tool => tool.name));
+      this.resources.start();
+
       // Create transport and connect
-      this.transport = new StdioServerTransport();
-      await this.server.connect(this.transport);
+      if (config.server.transport === 'http') {
+        this.httpHost = new HttpTransportHost(
+          () => this.createServer(),
+          config.server.httpHost,
+          config.server.httpPort,
+          {
+            allowedHosts: config.server.httpAllowedHosts,
+            allowedOrigins: config.server.httpAllowedOrigins,
+            authToken: config.server.httpAuthToken
+          }
+        );
+        await this.httpHost.start();
+      } else {
+        this.transport = new StdioServerTransport();
+        await this.createServer().connect(this.transport);
+      }
       
       logger.info('MCP Server started successfully', {
         name: config.server.name,
         version: config.server.version,
-        lmStudioUrl: config.lmStudio.baseUrl
+        transport: config.server.transport,
+        provider: this.lmStudioClient.getMetrics().provider,
+        backendUrl: this.lmStudioClient.getMetrics().baseUrl,
+        model: config.lmStudio.model
       });
 
+      if (config.monitoring.metricsEnabled) {
+        try {
+          this.metricsServer = await startMetricsServer(this.lmStudioClient);
+        } catch (error) {
+          // Another bridge process (e.g. a second stdio client) may own the port
+          logger.warn('Metrics endpoint not started', {
+            port: config.monitoring.metricsPort,
+            error: error instanceof Error ? error.message : error
+          });
+        }
+      }
+
       // Log available tools
       logger.info(`Available tools: ${tools.map(t => t.name).join(', ')}`);
       
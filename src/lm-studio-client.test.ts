@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { z } from 'zod';
+import { LMStudioClient } from './lm-studio-client.js';
+import { completeJson, matchesSpec, toResponseFormat, StructuredOutputSpec } from './structured-output.js';
+import { StubProvider } from './testing/stub-provider.js';
+
+const countSpec: StructuredOutputSpec<{ count: number }> = {
+  name: 'count',
+  schema: { type: 'object', properties: { count: { type: 'integer' } }, required: ['count'] },
+  validator: z.object({ count: z.number().int() })
+};
+
+describe('LMStudioClient', () => {
+  let provider: StubProvider;
+  let client: LMStudioClient;
+
+  const setUp = async (responses: string[]) => {
+    provider = new StubProvider({ responses, capabilities: { embeddings: false } });
+    client = new LMStudioClient(provider);
+    await client.checkHealth();
+  };
+
+  afterEach(() => client.shutdown());
+
+  it('serves repeated calls with the same cache key from the cache', async () => {
+    await setUp(['first', 'second']);
+    expect(await client.complete('prompt', { cacheKey: 'tool:a' })).toBe('first');
+    expect(await client.complete('prompt', { cacheKey: 'tool:a' })).toBe('first');
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('does not cache output that fails its schema, only the result that passes', async () => {
+    await setUp(['{"count": "three"}', '{"count": 3}', '{"count": 4}']);
+    const generate = () => client.complete('prompt', {
+      cacheKey: 'tool:b',
+      jsonSchema: toResponseFormat(countSpec),
+      validate: matchesSpec(countSpec)
+    });
+
+    // The invalid first answer is repaired, and the repair is not cached under the tool's key
+    expect(await completeJson(client, countSpec, generate)).toEqual({ count: 3 });
+    expect(provider.requests).toHaveLength(2);
+
+    // So the next call asks the model again instead of replaying the invalid answer
+    expect(await completeJson(client, countSpec, generate)).toEqual({ count: 4 });
+    expect(await completeJson(client, countSpec, generate)).toEqual({ count: 4 });
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  it('only streams when asked for token progress, and reports the serving model either way', async () => {
+    await setUp(['plain', 'streamed']);
+    const plain = await client.withModel(undefined, () => client.complete('one'));
+    const streamed = await client.withModel(undefined, () => client.complete('two', { onToken: () => {} }));
+
+    expect(plain).toMatchObject({ result: 'plain', servedBy: ['chat-model'] });
+    expect(streamed).toMatchObject({ result: 'streamed', servedBy: ['chat-model'] });
+    expect(provider.streamed).toBe(1);
+  });
+});
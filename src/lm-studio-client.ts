@@ -1,41 +1,102 @@
-import OpenAI from 'openai';
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
 import pRetry from 'p-retry';
 import pTimeout from 'p-timeout';
 import { config } from './config.js';
 import { logger } from './logger.js';
-import { LMStudioResponseSchema } from './validation.js';
-import NodeCache from 'node-cache';
+import { cacheLookups, tokens, cancelledCompletions } from './metrics.js';
+import {
+  createProvider,
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingResult,
+  LLMProvider,
+  LoadedModel,
+  LoadModelOptions,
+  ModelInfo,
+  ProviderCapabilities,
+  ResponseFormat,
+  SamplingParams
+} from './providers.js';
+import { validateJSON, CancelledError, ModelNotLoadedError, ValidationError } from './validation.js';
+import { createResponseCache, ResponseCache, CacheEntryInfo } from './response-cache.js';
+import { SemanticCache, embeddingWindows, poolEmbeddings } from './semantic-cache.js';
+
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+export interface CompletionOptions extends SamplingParams {
+  temperature?: number;
+  maxTokens?: number;
+  cacheKey?: string;
+  // Ask for JSON matching this schema; results that aren't valid JSON are not cached
+  jsonSchema?: ResponseFormat;
+  // Results this rejects are returned but not cached, e.g. JSON failing its zod schema
+  validate?: (content: string) => boolean;
+  // Stream the completion, reporting the number of chunks (~tokens) received so far
+  onToken?: (tokens: number) => void;
+  // Aborts the backend request and any pending retries
+  signal?: AbortSignal;
+  // Wait for a free rate-limit slot instead of failing, for batch jobs that make many calls
+  waitForRateLimit?: boolean;
+}
+
+export interface CacheInvalidationFilter {
+  tool?: string;
+  model?: string;
+  prefix?: string;
+}
+
+// The model serving one tool call, the model ids the backend answered with,
+// and the similarity of every approximate (semantic) cache hit
+interface ModelScope {
+  model: string;
+  servedBy: Set<string>;
+  semanticHits: number[];
+}
+
+export interface ModelScopeResult<T> {
+  result: T;
+  model: string;
+  servedBy: string[];
+  semanticHits: number[];
+}
+
+// A prompt's embedding, kept from a semantic cache miss to index its response
+interface SemanticProbe {
+  scope: string;
+  vector: Float32Array;
+}
 
 export class LMStudioClient {
-  private client: OpenAI;
-  private cache: NodeCache;
+  private provider: LLMProvider;
+  private cache: ResponseCache;
   private isHealthy: boolean = false;
   private lastHealthCheck: number = 0;
   private activeRequests: number = 0;
   private totalRequests: number = 0;
   private totalErrors: number = 0;
+  private totalCancelled: number = 0;
   private requestTimestamps: number[] = [];
+  private availableModels: ModelInfo[] = [];
+  private cacheHits: number = 0;
+  private cacheMisses: number = 0;
+  private semanticCacheHits: number = 0;
+  private semanticCache = new SemanticCache();
+  private modelScope = new AsyncLocalStorage<ModelScope>();
+  private healthCheckTimer?: NodeJS.Timeout;
 
-  constructor() {
-    this.client = new OpenAI({
-      baseURL: `${config.lmStudio.baseUrl}/v1`,
-      apiKey: config.lmStudio.apiKey,
-      timeout: config.lmStudio.timeout,
-      maxRetries: 0 // We handle retries ourselves
-    });
+  constructor(provider: LLMProvider = createProvider()) {
+    this.provider = provider;
 
-    this.cache = new NodeCache({
-      stdTTL: config.cache.ttl,
-      checkperiod: config.cache.checkPeriod,
-      useClones: false
-    });
+    this.cache = createResponseCache();
 
     // Start health check loop
     this.startHealthCheckLoop();
   }
 
   private startHealthCheckLoop() {
-    setInterval(async () => {
+    this.healthCheckTimer = setInterval(async () => {
       await this.checkHealth();
     }, config.lmStudio.healthCheckInterval);
     
@@ -44,28 +105,172 @@ export class LMStudioClient {
   }
 
   async checkHealth(): Promise<boolean> {
+    const startTime = Date.now();
+    this.isHealthy = await this.provider.checkHealth();
+    this.lastHealthCheck = Date.now();
+
+    if (this.isHealthy) {
+      this.availableModels = await this.provider.listModels().catch(() => this.availableModels);
+      logger.debug('Backend health check successful', {
+        provider: this.provider.type,
+        duration_ms: Date.now() - startTime,
+        models_count: this.availableModels.length
+      });
+    } else {
+      logger.error('Backend health check failed', {
+        provider: this.provider.type,
+        baseUrl: this.provider.baseUrl
+      });
+    }
+
+    return this.isHealthy;
+  }
+
+  // Queries the backend and refreshes the list used to resolve models
+  async listModels(): Promise<ModelInfo[]> {
+    this.availableModels = await this.provider.listModels();
+    return [...this.availableModels];
+  }
+
+  // Models reported by the last successful health check
+  getAvailableModels(): ModelInfo[] {
+    return [...this.availableModels];
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return this.provider.capabilities;
+  }
+
+  /**
+   * The model id that will actually answer. Inside withModel() that is the
+   * model chosen for the call. Otherwise a placeholder like the default
+   * 'local-model' resolves to the first loaded model the backend reports, so
+   * swapping the loaded model still changes cache identity.
+   */
+  resolveModel(): string {
+    const scoped = this.modelScope.getStore();
+    if (scoped) {
+      return scoped.model;
+    }
+
+    const configured = config.lmStudio.model;
+    if (this.availableModels.some(model => model.id === configured)) {
+      return configured;
+    }
+    return this.loadedModels().find(model => model.type !== 'embedding')?.id ?? configured;
+  }
+
+  private loadedModels(): ModelInfo[] {
+    return this.availableModels.filter(model => model.loaded !== false);
+  }
+
+  /**
+   * Runs `fn` with every completion and prompt lookup inside it using `model`,
+   * or the default model when unset. A requested model must be loaded.
+   * Also reports the model ids the backend answered with.
+   */
+  async withModel<T>(model: string | undefined, fn: () => Promise<T>): Promise<ModelScopeResult<T>> {
+    const scope: ModelScope = {
+      model: model ? await this.ensureLoaded(model) : this.resolveModel(),
+      servedBy: new Set(),
+      semanticHits: []
+    };
+    const result = await this.modelScope.run(scope, fn);
+    return { result, model: scope.model, servedBy: [...scope.servedBy], semanticHits: scope.semanticHits };
+  }
+
+  private async ensureLoaded(model: string): Promise<string> {
+    const isLoaded = () => this.loadedModels().some(info => info.id === model);
+    if (isLoaded()) {
+      return model;
+    }
+
+    // The model may have been loaded since the last health check
     try {
-      const startTime = Date.now();
-      const response = await pTimeout(
-        this.client.models.list(),
-        { milliseconds: 5000 }
+      await this.listModels();
+    } catch {
+      // Unreachable backend: the completion itself reports that
+      return model;
+    }
+
+    if (!isLoaded()) {
+      throw new ModelNotLoadedError(
+        model,
+        this.loadedModels().map(info => info.id),
+        this.provider.capabilities.modelManagement
+          ? undefined
+          : `Use list_models to see the models the ${this.provider.type} backend can serve.`
       );
-      
-      const duration = Date.now() - startTime;
-      this.isHealthy = true;
-      this.lastHealthCheck = Date.now();
-      
-      logger.debug('LM Studio health check successful', { 
-        duration_ms: duration,
-        models_count: response.data.length 
-      });
-      
-      return true;
+    }
+    return model;
+  }
+
+  async loadModel(model: string, options?: LoadModelOptions): Promise<LoadedModel> {
+    if (!this.provider.loadModel) {
+      throw new ValidationError(`The ${this.provider.type} backend does not support loading models`, 'model', model);
+    }
+
+    const startTime = Date.now();
+    const loaded = await this.provider.loadModel(model, options);
+    logger.info('Model loaded', { provider: this.provider.type, model, instanceId: loaded.instanceId, duration_ms: Date.now() - startTime });
+
+    await this.listModels().catch(error => logger.warn('Failed to refresh models after load', { error }));
+    return loaded;
+  }
+
+  async unloadModel(model: string): Promise<string[]> {
+    if (!this.provider.unloadModel) {
+      throw new ValidationError(`The ${this.provider.type} backend does not support unloading models`, 'model', model);
+    }
+
+    const instances = await this.provider.unloadModel(model);
+    logger.info('Model unloaded', { provider: this.provider.type, model, instances });
+
+    await this.listModels().catch(error => logger.warn('Failed to refresh models after unload', { error }));
+    return instances;
+  }
+
+  // Everything besides the tool's cache key that shapes the answer
+  private samplingHash(model: string, temperature: number, options: CompletionOptions): string {
+    const { maxTokens, jsonSchema, topP, topK, stop, seed, repeatPenalty } = options;
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({ model, temperature, maxTokens, jsonSchema, topP, topK, stop, seed, repeatPenalty }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Embeds the prompt and looks for the cached response to a similar prompt
+   * of the same tool, model and sampling parameters. Embedding failures only
+   * disable the lookup; the completion goes ahead.
+   */
+  private async lookupSemantic(
+    prompt: string,
+    tool: string,
+    sampling: string,
+    embedOptions: { signal?: AbortSignal; waitForRateLimit?: boolean }
+  ): Promise<{ value?: string; similarity?: number; probe?: SemanticProbe }> {
+    let vector: Float32Array;
+    try {
+      vector = poolEmbeddings((await this.embed(embeddingWindows(prompt), embedOptions)).embeddings);
     } catch (error) {
-      this.isHealthy = false;
-      logger.error('LM Studio health check failed', { error });
-      return false;
+      if (error instanceof CancelledError) throw error;
+      logger.debug('Semantic cache lookup skipped', { tool, error });
+      return {};
+    }
+
+    const probe = { scope: `${tool}:${sampling}`, vector };
+    const match = this.semanticCache.find(probe.scope, vector, this.semanticCache.thresholdFor(tool));
+    if (!match) {
+      return { probe };
+    }
+
+    const value = await this.cache.get(match.key);
+    if (value === undefined) {
+      this.semanticCache.remove(match.key);
+      return { probe };
     }
+    return { value, similarity: match.similarity, probe };
   }
 
   private enforceRateLimit(): void {
@@ -88,36 +293,103 @@ export class LMStudioClient {
     this.requestTimestamps.push(Date.now());
   }
 
-  async complete(
-    prompt: string,
-    options: {
-      temperature?: number;
-      maxTokens?: number;
-      cacheKey?: string;
-      stream?: boolean;
-    } = {}
-  ): Promise<string> {
+  // Like enforceRateLimit, but waits for a free slot instead of failing
+  private async awaitRateLimit(signal?: AbortSignal): Promise<void> {
+    if (!config.rateLimit.enabled) return;
+
+    for (;;) {
+      const oneMinuteAgo = Date.now() - 60000;
+      this.requestTimestamps = this.requestTimestamps.filter(ts => ts > oneMinuteAgo);
+      // Timestamps are in order, so the first one is the next to leave the window
+      const wait = this.requestTimestamps.length >= config.rateLimit.maxRequestsPerMinute
+        ? this.requestTimestamps[0]! - oneMinuteAgo + 1
+        : this.activeRequests >= config.rateLimit.maxConcurrent ? 250 : 0;
+      if (wait <= 0) break;
+      if (signal?.aborted) throw new CancelledError();
+
+      logger.debug('Rate limit reached, waiting for a free slot', { wait_ms: wait });
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(new CancelledError());
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, wait);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+
+    this.requestTimestamps.push(Date.now());
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    return this.completeMessages([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Completes a conversation: an optional system message followed by
+   * alternating user and assistant turns. Callers that pass a cacheKey must
+   * derive it from every message.
+   */
+  async completeMessages(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    if (options.signal?.aborted) {
+      throw new CancelledError();
+    }
+
+    // What the semantic cache embeds and the logs measure
+    const prompt = messages.length === 1
+      ? messages[0]!.content
+      : messages.map(message => `${message.role}: ${message.content}`).join('\n\n');
+    const model = this.resolveModel();
+    const temperature = options.temperature ?? 0.3;
+    const sampling = this.samplingHash(model, temperature, options);
+    const cacheKey = options.cacheKey ? `${options.cacheKey}:${sampling}` : undefined;
+    const tool = options.cacheKey?.split(':')[0] ?? 'unknown';
+    let probe: SemanticProbe | undefined;
+
     // Check if we have a cached response
-    if (config.cache.enabled && options.cacheKey) {
-      const cached = this.cache.get<string>(options.cacheKey);
+    if (config.cache.enabled && cacheKey) {
+      const cached = await this.cache.get(cacheKey);
       if (cached) {
-        logger.debug('Cache hit', { cacheKey: options.cacheKey });
+        logger.debug('Cache hit', { cacheKey });
+        cacheLookups.inc({ result: 'hit' });
+        this.cacheHits++;
         this.totalRequests++;
+        this.modelScope.getStore()?.servedBy.add(model);
         return cached;
       }
-    }
 
-    // Enforce rate limiting
-    this.enforceRateLimit();
+      if (config.semanticCache.enabled) {
+        const semantic = await this.lookupSemantic(prompt, tool, sampling, {
+          signal: options.signal,
+          waitForRateLimit: options.waitForRateLimit
+        });
+        probe = semantic.probe;
+        if (semantic.value !== undefined) {
+          logger.info('Semantic cache hit', { tool, similarity: semantic.similarity });
+          cacheLookups.inc({ result: 'semantic_hit' });
+          this.semanticCacheHits++;
+          this.totalRequests++;
+          const scope = this.modelScope.getStore();
+          scope?.servedBy.add(model);
+          scope?.semanticHits.push(semantic.similarity!);
+          return semantic.value;
+        }
+      }
 
-    // Check health status
-    if (!this.isHealthy && (Date.now() - this.lastHealthCheck) > 10000) {
-      await this.checkHealth();
+      cacheLookups.inc({ result: 'miss' });
+      this.cacheMisses++;
     }
 
-    if (!this.isHealthy) {
-      throw new Error('LM Studio is not responding. Please ensure it is running.');
+    // Enforce rate limiting
+    if (options.waitForRateLimit) {
+      await this.awaitRateLimit(options.signal);
+    } else {
+      this.enforceRateLimit();
     }
+    await this.ensureHealthy();
 
     this.activeRequests++;
     this.totalRequests++;
@@ -126,27 +398,38 @@ export class LMStudioClient {
     try {
       const response = await pRetry(
         async () => {
-          const completion = await pTimeout(
-            this.client.chat.completions.create({
-              model: config.lmStudio.model,
-              messages: [{ role: 'user', content: prompt }],
-              temperature: options.temperature ?? 0.3,
-              max_tokens: options.maxTokens,
-              stream: options.stream ?? false
-            }),
-            { milliseconds: config.lmStudio.timeout }
-          );
+          const request: CompletionRequest = {
+            model,
+            messages,
+            temperature,
+            maxTokens: options.maxTokens,
+            topP: options.topP,
+            topK: options.topK,
+            stop: options.stop,
+            seed: options.seed,
+            repeatPenalty: options.repeatPenalty,
+            responseFormat: this.provider.capabilities.jsonSchema ? options.jsonSchema : undefined
+          };
+
+          if (options.onToken && this.provider.capabilities.streaming) {
+            return await pTimeout(
+              this.streamToResult(request, options.onToken, options.signal),
+              { milliseconds: config.lmStudio.timeout, signal: options.signal }
+            );
+          }
 
-          // Validate response
-          const validated = LMStudioResponseSchema.parse(completion);
-          return validated;
+          return await pTimeout(
+            this.provider.complete(request, options.signal),
+            { milliseconds: config.lmStudio.timeout, signal: options.signal }
+          );
         },
         {
+          signal: options.signal,
           retries: config.lmStudio.maxRetries,
           minTimeout: config.lmStudio.retryDelay,
           maxTimeout: config.lmStudio.retryDelay * 3,
           onFailedAttempt: (error) => {
-            logger.warn(`LM Studio request failed, attempt ${error.attemptNumber}/${config.lmStudio.maxRetries}`, {
+            logger.warn(`Backend request failed, attempt ${error.attemptNumber}/${config.lmStudio.maxRetries}`, {
               error: error.message,
               retriesLeft: error.retriesLeft
             });
@@ -154,27 +437,55 @@ export class LMStudioClient {
         }
       );
 
-      const result = response.choices[0]?.message?.content || '';
+      const result = response.content;
       const duration = Date.now() - startTime;
+      this.modelScope.getStore()?.servedBy.add(response.model);
 
-      logger.info('LM Studio completion successful', {
+      logger.info('Completion successful', {
+        provider: this.provider.type,
+        model: response.model,
         duration_ms: duration,
         prompt_length: prompt.length,
+        messages: messages.length,
         response_length: result.length,
-        tokens_used: response.usage?.total_tokens
+        tokens_used: response.usage?.totalTokens
       });
 
+      if (response.usage) {
+        tokens.inc({ model: response.model, type: 'prompt' }, response.usage.promptTokens);
+        tokens.inc({ model: response.model, type: 'completion' }, response.usage.completionTokens);
+      }
+
       // Cache the result if enabled
-      if (config.cache.enabled && options.cacheKey) {
-        this.cache.set(options.cacheKey, result);
+      const cacheable = (!options.jsonSchema || validateJSON(result)) && (!options.validate || options.validate(result));
+      if (config.cache.enabled && cacheKey && cacheable) {
+        try {
+          await this.cache.set(cacheKey, result, { tool, model: response.model });
+          if (probe) {
+            this.semanticCache.add(probe.scope, cacheKey, probe.vector);
+          }
+        } catch (error) {
+          logger.warn('Failed to cache response', { cacheKey, error });
+        }
       }
 
       return result;
     } catch (error) {
-      this.totalErrors++;
       const duration = Date.now() - startTime;
-      
-      logger.error('LM Studio completion failed', {
+
+      if (options.signal?.aborted) {
+        this.totalCancelled++;
+        cancelledCompletions.inc();
+        logger.info('Completion cancelled', {
+          provider: this.provider.type,
+          duration_ms: duration
+        });
+        throw new CancelledError();
+      }
+
+      this.totalErrors++;
+      logger.error('Completion failed', {
+        provider: this.provider.type,
         error,
         duration_ms: duration,
         prompt_length: prompt.length
@@ -190,48 +501,166 @@ export class LMStudioClient {
     }
   }
 
+  private async ensureHealthy(): Promise<void> {
+    if (!this.isHealthy && (Date.now() - this.lastHealthCheck) > 10000) {
+      await this.checkHealth();
+    }
+
+    if (!this.isHealthy) {
+      throw new Error(`${this.provider.type} backend at ${this.provider.baseUrl} is not responding. Please ensure it is running.`);
+    }
+  }
+
+  // EMBEDDING_MODEL, or the first loaded model the backend reports as an embedding model
+  resolveEmbeddingModel(): string {
+    if (config.embeddings.model) {
+      return config.embeddings.model;
+    }
+    const model = this.loadedModels().find(info => info.type === 'embedding');
+    if (!model) {
+      throw new ValidationError('No embedding model is loaded. Load one with load_model or set EMBEDDING_MODEL.', 'model');
+    }
+    return model.id;
+  }
+
+  /**
+   * Embed `texts`, one vector per text, with the embedding model. Goes through
+   * the same rate limiting, health checks, retries and timeout as complete().
+   * With waitForRateLimit, a call over the rate limit waits for a free slot
+   * instead of failing, for jobs that embed many batches in a row.
+   */
+  async embed(texts: string[], options: { signal?: AbortSignal; waitForRateLimit?: boolean } = {}): Promise<EmbeddingResult> {
+    if (options.signal?.aborted) {
+      throw new CancelledError();
+    }
+
+    const model = this.resolveEmbeddingModel();
+    if (options.waitForRateLimit) {
+      await this.awaitRateLimit(options.signal);
+    } else {
+      this.enforceRateLimit();
+    }
+    await this.ensureHealthy();
+
+    this.activeRequests++;
+    this.totalRequests++;
+    const startTime = Date.now();
+
+    try {
+      const result = await pRetry(
+        () => pTimeout(
+          this.provider.embed({ model, input: texts }, options.signal),
+          { milliseconds: config.lmStudio.timeout, signal: options.signal }
+        ),
+        {
+          signal: options.signal,
+          retries: config.lmStudio.maxRetries,
+          minTimeout: config.lmStudio.retryDelay,
+          maxTimeout: config.lmStudio.retryDelay * 3,
+          onFailedAttempt: (error) => {
+            logger.warn(`Embedding request failed, attempt ${error.attemptNumber}/${config.lmStudio.maxRetries}`, {
+              error: error.message,
+              retriesLeft: error.retriesLeft
+            });
+          }
+        }
+      );
+
+      if (result.embeddings.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings from ${model}, got ${result.embeddings.length}`);
+      }
+
+      logger.debug('Embedding successful', {
+        provider: this.provider.type,
+        model: result.model,
+        inputs: texts.length,
+        duration_ms: Date.now() - startTime
+      });
+      if (result.promptTokens) {
+        tokens.inc({ model: result.model, type: 'embedding' }, result.promptTokens);
+      }
+      return result;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        this.totalCancelled++;
+        cancelledCompletions.inc();
+        throw new CancelledError();
+      }
+
+      this.totalErrors++;
+      logger.error('Embedding failed', { provider: this.provider.type, model, error, inputs: texts.length });
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Request timed out after ${config.lmStudio.timeout}ms`);
+      }
+      throw error;
+    } finally {
+      this.activeRequests--;
+    }
+  }
+
+  // Collects a streamed completion into a result, with the model and usage the stream reported
+  private async streamToResult(
+    request: CompletionRequest,
+    onToken: (tokens: number) => void,
+    signal?: AbortSignal
+  ): Promise<CompletionResult> {
+    let content = '';
+    let chunks = 0;
+    const summary = await this.provider.completeStream(request, chunk => {
+      content += chunk;
+      onToken(++chunks);
+    }, signal);
+    return { content, model: summary.model ?? request.model, usage: summary.usage };
+  }
+
   async completeStream(
     prompt: string,
     onChunk: (chunk: string) => void,
     options: {
       temperature?: number;
       maxTokens?: number;
+      signal?: AbortSignal;
     } = {}
   ): Promise<void> {
     this.enforceRateLimit();
 
     if (!this.isHealthy) {
-      throw new Error('LM Studio is not responding');
+      throw new Error(`${this.provider.type} backend is not responding`);
     }
 
     this.activeRequests++;
     this.totalRequests++;
     const startTime = Date.now();
 
+    const model = this.resolveModel();
     try {
-      const stream = await this.client.chat.completions.create({
-        model: config.lmStudio.model,
+      const summary = await this.provider.completeStream({
+        model,
         messages: [{ role: 'user', content: prompt }],
         temperature: options.temperature ?? 0.3,
-        max_tokens: options.maxTokens,
-        stream: true
-      });
-
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content;
-        if (content) {
-          onChunk(content);
-        }
-      }
+        maxTokens: options.maxTokens
+      }, onChunk, options.signal);
 
       const duration = Date.now() - startTime;
-      logger.info('LM Studio streaming completion successful', {
+      const servedBy = summary.model ?? model;
+      this.modelScope.getStore()?.servedBy.add(servedBy);
+      if (summary.usage) {
+        tokens.inc({ model: servedBy, type: 'prompt' }, summary.usage.promptTokens);
+        tokens.inc({ model: servedBy, type: 'completion' }, summary.usage.completionTokens);
+      }
+      logger.info('Streaming completion successful', {
+        provider: this.provider.type,
         duration_ms: duration,
         prompt_length: prompt.length
       });
     } catch (error) {
+      if (options.signal?.aborted) {
+        this.totalCancelled++;
+        cancelledCompletions.inc();
+        throw new CancelledError();
+      }
       this.totalErrors++;
-      logger.error('LM Studio streaming failed', { error });
+      logger.error('Streaming completion failed', { provider: this.provider.type, error });
       throw error;
     } finally {
       this.activeRequests--;
@@ -240,20 +669,50 @@ export class LMStudioClient {
 
   getMetrics() {
     return {
+      provider: this.provider.type,
+      baseUrl: this.provider.baseUrl,
+      capabilities: this.provider.capabilities,
       isHealthy: this.isHealthy,
       lastHealthCheck: this.lastHealthCheck,
       activeRequests: this.activeRequests,
       totalRequests: this.totalRequests,
       totalErrors: this.totalErrors,
+      totalCancelled: this.totalCancelled,
       errorRate: this.totalRequests > 0 ? this.totalErrors / this.totalRequests : 0,
-      cacheSize: this.cache.keys().length,
+      cacheSize: this.cache.size(),
+      cacheHits: this.cacheHits,
+      cacheMisses: this.cacheMisses,
+      semanticCacheHits: this.semanticCacheHits,
+      semanticCacheSize: this.semanticCache.size(),
       requestsPerMinute: this.requestTimestamps.length
     };
   }
 
+  async listCacheEntries(tool?: string): Promise<CacheEntryInfo[]> {
+    const entries = await this.cache.entries();
+    return tool ? entries.filter(entry => entry.tool === tool) : entries;
+  }
+
+  async invalidateCache(filter: CacheInvalidationFilter): Promise<number> {
+    const entries = await this.cache.entries();
+    const matches = entries.filter(entry =>
+      (!filter.tool || entry.tool === filter.tool) &&
+      (!filter.model || entry.model === filter.model) &&
+      (!filter.prefix || entry.key.startsWith(filter.prefix))
+    );
+
+    for (const entry of matches) {
+      await this.cache.delete(entry.key);
+      this.semanticCache.remove(entry.key);
+    }
+
+    logger.info('Cache invalidated', { ...filter, removed: matches.length });
+    return matches.length;
+  }
+
   async shutdown() {
     logger.info('Shutting down LM Studio client');
-    this.cache.flushAll();
-    this.cache.close();
+    clearInterval(this.healthCheckTimer);
+    await this.cache.close();
   }
 }
\ No newline at end of file
@@ -0,0 +1,152 @@
+import type { PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import {
+  GenerateDocsSchema,
+  AnalyzeCodeSchema,
+  RefactorSuggestionsSchema,
+  SummarizeSchema,
+  SummarizeMarkdownSchema,
+  AnalyzeMarkdownSchema,
+  sanitizeInput,
+  detectPotentialInjection,
+  ValidationError
+} from './validation.js';
+import {
+  generateDocsPrompt,
+  analyzeCodePrompt,
+  refactorSuggestionsPrompt,
+  summarizePrompts,
+  summarizeMarkdownPrompts,
+  analyzeMarkdownPrompts,
+  loadMarkdownContent
+} from './tools.js';
+import type { LMStudioClient } from './lm-studio-client.js';
+import type { FileSandbox } from './sandbox.js';
+
+/**
+ * A tool's prompt template published through prompts/list and prompts/get,
+ * so clients can run it on their own model (e.g. as a slash command).
+ * MCP prompt arguments are strings; build() converts them before validation.
+ */
+export interface McpPrompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  build(args: Record<string, string>, client: LMStudioClient, sandbox: FileSandbox): Promise<string>;
+}
+
+const toList = (value?: string) => value?.split(',').map(item => item.trim()).filter(Boolean);
+const toNumber = (value?: string) => (value === undefined || value === '' ? undefined : Number(value));
+const toBoolean = (value?: string) => (value === undefined ? undefined : value === 'true');
+
+function checkCode(code?: string) {
+  if (code && detectPotentialInjection(code)) {
+    throw new ValidationError('Potentially unsafe code detected', 'code');
+  }
+}
+
+// Markdown prompts take either a file (subject to the session's sandbox) or inline content
+async function markdownContent(args: Record<string, string>, sandbox: FileSandbox): Promise<string> {
+  const content = await loadMarkdownContent(args, { sandbox });
+  return sanitizeInput(content);
+}
+
+const codeArguments: PromptArgument[] = [
+  { name: 'code', description: 'Code to work on', required: true },
+  { name: 'language', description: 'Programming language', required: true }
+];
+
+const markdownArguments: PromptArgument[] = [
+  { name: 'filePath', description: 'Path to a markdown file (or pass content)' },
+  { name: 'content', description: 'Markdown content (if no filePath)' }
+];
+
+export const mcpPrompts: McpPrompt[] = [
+  {
+    name: 'generate_docs',
+    description: 'Write documentation for a piece of code',
+    arguments: [
+      { name: 'code', description: 'Code to document', required: true },
+      { name: 'language', description: 'Programming language' },
+      { name: 'style', description: 'technical, user or api (default technical)' },
+      { name: 'includeExamples', description: 'true to include usage examples' }
+    ],
+    build: async (args, client) => {
+      checkCode(args.code);
+      return generateDocsPrompt(client, GenerateDocsSchema.parse({
+        ...args,
+        includeExamples: toBoolean(args.includeExamples)
+      }));
+    }
+  },
+  {
+    name: 'analyze_code',
+    description: 'Review code for security, performance, style and bugs',
+    arguments: [
+      ...codeArguments,
+      { name: 'checks', description: 'Comma-separated: security, performance, style, bugs (default security, bugs)' }
+    ],
+    build: async (args, client) => {
+      checkCode(args.code);
+      return analyzeCodePrompt(client, AnalyzeCodeSchema.parse({ ...args, checks: toList(args.checks) }));
+    }
+  },
+  {
+    name: 'refactor_suggestions',
+    description: 'Suggest prioritized refactorings for a piece of code',
+    arguments: [
+      ...codeArguments,
+      { name: 'focus', description: 'readability, performance, maintainability or all (default all)' }
+    ],
+    build: async (args, client) => {
+      checkCode(args.code);
+      return refactorSuggestionsPrompt(client, RefactorSuggestionsSchema.parse(args));
+    }
+  },
+  {
+    name: 'summarize',
+    description: 'Summarize code or text',
+    arguments: [
+      { name: 'content', description: 'Content to summarize', required: true },
+      { name: 'style', description: 'brief, detailed or bullet-points (default brief)' },
+      { name: 'max_words', description: 'Maximum words (default 100)' }
+    ],
+    build: async (args, client) => {
+      const input = SummarizeSchema.parse({ ...args, max_words: toNumber(args.max_words) });
+      return summarizePrompts(client, input).single(sanitizeInput(input.content));
+    }
+  },
+  {
+    name: 'summarize_markdown',
+    description: 'Summarize markdown documentation as key findings, a TL;DR, an overview and more',
+    arguments: [
+      ...markdownArguments,
+      { name: 'style', description: 'key-findings, tldr, overview, actionable or technical-summary' },
+      { name: 'maxPoints', description: 'Maximum key points (default 5)' },
+      { name: 'maxWords', description: 'Maximum words (default 300)' }
+    ],
+    build: async (args, client, sandbox) => {
+      const input = SummarizeMarkdownSchema.parse({
+        ...args,
+        maxPoints: toNumber(args.maxPoints),
+        maxWords: toNumber(args.maxWords)
+      });
+      return summarizeMarkdownPrompts(client, input).single(await markdownContent(args, sandbox));
+    }
+  },
+  {
+    name: 'analyze_markdown',
+    description: 'Review markdown documentation for quality and completeness',
+    arguments: [
+      ...markdownArguments,
+      { name: 'checks', description: 'Comma-separated: completeness, clarity, structure, examples, consistency' }
+    ],
+    build: async (args, client, sandbox) => {
+      const input = AnalyzeMarkdownSchema.parse({ ...args, checks: toList(args.checks) });
+      return analyzeMarkdownPrompts(client, input).single(await markdownContent(args, sandbox));
+    }
+  }
+];
+
+export function getMcpPrompt(name: string): McpPrompt | undefined {
+  return mcpPrompts.find(prompt => prompt.name === name);
+}
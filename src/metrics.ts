@@ -0,0 +1,173 @@
+import http from 'http';
+import { Registry, Counter, Histogram, Gauge, collectDefaultMetrics } from 'prom-client';
+import { ZodError } from 'zod';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { ValidationError, StructuredOutputError } from './validation.js';
+import type { LMStudioClient } from './lm-studio-client.js';
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry, prefix: 'lmstudio_mcp_' });
+
+export const toolCalls = new Counter({
+  name: 'lmstudio_mcp_tool_calls_total',
+  help: 'Tool calls by tool name and outcome',
+  labelNames: ['tool', 'status'] as const,
+  registers: [registry]
+});
+
+export const toolDuration = new Histogram({
+  name: 'lmstudio_mcp_tool_duration_seconds',
+  help: 'Tool call latency in seconds',
+  labelNames: ['tool'] as const,
+  buckets: [0.1, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120],
+  registers: [registry]
+});
+
+export const errors = new Counter({
+  name: 'lmstudio_mcp_errors_total',
+  help: 'Errors by kind',
+  labelNames: ['kind'] as const,
+  registers: [registry]
+});
+
+export const cancelledCompletions = new Counter({
+  name: 'lmstudio_mcp_completions_cancelled_total',
+  help: 'Backend completions aborted because the client cancelled the tool call',
+  registers: [registry]
+});
+
+export const cacheLookups = new Counter({
+  name: 'lmstudio_mcp_cache_lookups_total',
+  help: 'Response cache lookups by result (hit, semantic_hit, miss)',
+  labelNames: ['result'] as const,
+  registers: [registry]
+});
+
+export const tokens = new Counter({
+  name: 'lmstudio_mcp_tokens_total',
+  help: 'Tokens reported by the backend in response usage',
+  labelNames: ['model', 'type'] as const,
+  registers: [registry]
+});
+
+export const modelRoutes = new Counter({
+  name: 'lmstudio_mcp_model_routes_total',
+  help: 'Model routing decisions by tool, chosen model and the rule that chose it',
+  labelNames: ['tool', 'model', 'rule', 'fallback'] as const,
+  registers: [registry]
+});
+
+export type ErrorKind = 'validation' | 'structured_output' | 'timeout' | 'rate_limit' | 'backend' | 'unknown';
+
+export function classifyError(error: unknown): ErrorKind {
+  if (error instanceof ValidationError || error instanceof ZodError) {
+    return 'validation';
+  }
+  if (error instanceof StructuredOutputError) {
+    return 'structured_output';
+  }
+  if (!(error instanceof Error)) {
+    return 'unknown';
+  }
+  if (error.name === 'TimeoutError' || /timed out/i.test(error.message)) {
+    return 'timeout';
+  }
+  if (/rate limit|too many concurrent/i.test(error.message)) {
+    return 'rate_limit';
+  }
+  return 'backend';
+}
+
+// Backend gauges are read from the client on every scrape
+function registerBackendGauges(client: LMStudioClient) {
+  new Gauge({
+    name: 'lmstudio_mcp_backend_up',
+    help: 'Whether the backend passed its last health check (1) or not (0)',
+    labelNames: ['provider'] as const,
+    registers: [registry],
+    collect() {
+      const metrics = client.getMetrics();
+      this.reset();
+      this.set({ provider: metrics.provider }, metrics.isHealthy ? 1 : 0);
+    }
+  });
+
+  new Gauge({
+    name: 'lmstudio_mcp_backend_active_requests',
+    help: 'Completions currently in flight',
+    registers: [registry],
+    collect() {
+      this.set(client.getMetrics().activeRequests);
+    }
+  });
+
+  new Gauge({
+    name: 'lmstudio_mcp_backend_requests_per_minute',
+    help: 'Completions started in the last minute',
+    registers: [registry],
+    collect() {
+      this.set(client.getMetrics().requestsPerMinute);
+    }
+  });
+
+  new Gauge({
+    name: 'lmstudio_mcp_cache_entries',
+    help: 'Entries currently held in the response cache',
+    registers: [registry],
+    collect() {
+      this.set(client.getMetrics().cacheSize);
+    }
+  });
+
+  new Gauge({
+    name: 'lmstudio_mcp_cache_hit_ratio',
+    help: 'Cache hits (exact and semantic) divided by cache lookups since startup',
+    registers: [registry],
+    async collect() {
+      const values = (await cacheLookups.get()).values;
+      const hits = values
+        .filter(v => v.labels.result === 'hit' || v.labels.result === 'semantic_hit')
+        .reduce((sum, v) => sum + v.value, 0);
+      const total = values.reduce((sum, v) => sum + v.value, 0);
+      this.set(total > 0 ? hits / total : 0);
+    }
+  });
+}
+
+/**
+ * Serves `/metrics` (Prometheus text format) and `/health` (JSON) on
+ * config.monitoring.metricsHost and metricsPort, loopback only by default.
+ */
+export async function startMetricsServer(client: LMStudioClient): Promise<http.Server> {
+  registerBackendGauges(client);
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      if (req.url === '/metrics') {
+        res.writeHead(200, { 'Content-Type': registry.contentType });
+        res.end(await registry.metrics());
+      } else if (req.url === '/health') {
+        const metrics = client.getMetrics();
+        res.writeHead(metrics.isHealthy ? 200 : 503, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(metrics));
+      } else {
+        res.writeHead(404).end('Not found');
+      }
+    } catch (error) {
+      logger.error('Failed to serve metrics', { error });
+      res.writeHead(500).end();
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.monitoring.metricsPort, config.monitoring.metricsHost, () => resolve());
+  });
+
+  logger.info('Metrics endpoint listening', {
+    url: `http://${config.monitoring.metricsHost}:${config.monitoring.metricsPort}/metrics`
+  });
+
+  return server;
+}
@@ -0,0 +1,496 @@
+// Built-in prompt templates. Files in the templates directory can override
+// any of these by id, optionally only for matching models (see prompts.ts).
+// Bump a template's version whenever its text changes.
+
+export interface BuiltinTemplate {
+  version: number;
+  template: string;
+  // Variables an override may use; defaults to those in `template`
+  variables?: string[];
+}
+
+// Every summarize_markdown style receives both limits
+const SUMMARY_STYLE_VARIABLES = ['maxPoints', 'maxWords'];
+
+const FENCE = '```';
+
+export const builtinTemplates: Record<string, BuiltinTemplate> = {
+  // generate_docs
+  'generate_docs.prompt': {
+    version: 2,
+    template: `Generate {{style}} documentation for the following {{language}}.
+{{examplesInstruction}}
+
+Code:
+${FENCE}{{fenceLanguage}}
+{{code}}
+${FENCE}
+
+Documentation format:
+- Clear description of purpose
+- Parameters/inputs explanation
+- Return values/outputs
+- {{styleDetail}}
+{{examplesFormat}}`
+  },
+  'generate_docs.style.technical': { version: 1, template: 'Implementation details' },
+  'generate_docs.style.user': { version: 1, template: 'User-friendly explanations' },
+  'generate_docs.style.api': { version: 1, template: 'API usage patterns' },
+
+  // summarize
+  'summarize.style.brief': { version: 1, template: 'Provide a concise, high-level summary' },
+  'summarize.style.detailed': { version: 1, template: 'Include key details and nuances' },
+  'summarize.style.bullet-points': { version: 1, template: 'Format as clear bullet points' },
+  'summarize.single': {
+    version: 1,
+    template: `{{style}}.
+Maximum {{maxWords}} words.
+
+Content to summarize:
+{{content}}
+
+Summary:`
+  },
+  'summarize.map': {
+    version: 1,
+    template: `Summarize part {{part}} of {{total}} of a larger document.
+Capture every key point; this summary will be merged with the other parts.
+
+Content to summarize:
+{{content}}
+
+Summary:`
+  },
+  'summarize.reduce': {
+    version: 1,
+    template: `{{style}} of the full document, based on these summaries of its consecutive parts.
+Maximum {{maxWords}} words.
+
+{{partials}}
+
+Summary:`
+  },
+
+  // extract_tags
+  'extract_tags.prompt': {
+    version: 2,
+    template: `Extract up to {{maxTags}} semantic tags from this {{language}} code.
+Focus on:
+- Main functionality/purpose
+- Key algorithms/patterns used
+- Technologies/frameworks
+- Data structures
+- Design patterns
+- Domain concepts
+
+Code:
+${FENCE}{{language}}
+{{code}}
+${FENCE}
+
+Return ONLY a JSON object of the form {"tags": ["tag1", "tag2"]}, no explanation:`
+  },
+
+  // analyze_code
+  'analyze_code.check.security': { version: 1, template: 'Security vulnerabilities (injection, XSS, authentication issues)' },
+  'analyze_code.check.performance': { version: 1, template: 'Performance bottlenecks and optimization opportunities' },
+  'analyze_code.check.style': { version: 1, template: 'Code style, readability, and best practices' },
+  'analyze_code.check.bugs': { version: 1, template: 'Potential bugs, logic errors, and edge cases' },
+  'analyze_code.prompt': {
+    version: 1,
+    template: `Analyze this {{language}} code for:
+{{checks}}
+
+Code:
+${FENCE}{{language}}
+{{code}}
+${FENCE}
+
+Provide a structured analysis with:
+1. Issues found (categorized by severity: HIGH, MEDIUM, LOW)
+2. Specific line numbers where applicable
+3. Recommended fixes
+4. Overall code quality score (1-10)`
+  },
+
+  'analyze_code.findings': {
+    version: 2,
+    template: `Analyze this {{language}} code for:
+{{checks}}
+
+Each line is prefixed with its line number and "| ", which are not part of the code.
+
+Code:
+${FENCE}{{language}}
+{{numberedCode}}
+${FENCE}
+
+Respond with JSON only: {"findings": [...], "score": <overall code quality, 1-10>}.
+Each finding has:
+- ruleId: short kebab-case identifier of the problem, e.g. "sql-injection"
+- category: one of {{categories}}
+- severity: "high", "medium" or "low"
+- message: what is wrong and why it matters
+- startLine, endLine: the line numbers the problem spans
+- startColumn, endColumn: 1-based columns within those lines, when the problem is a specific expression
+- suggestedFix: the corrected code or a concrete fix
+Return an empty findings array if there are no issues.`
+  },
+
+  // refactor_suggestions
+  'refactor_suggestions.focus.readability': { version: 1, template: 'Focus on making the code more readable and self-documenting' },
+  'refactor_suggestions.focus.performance': { version: 1, template: 'Focus on performance optimizations and efficiency' },
+  'refactor_suggestions.focus.maintainability': { version: 1, template: 'Focus on modularity, testability, and future extensibility' },
+  'refactor_suggestions.focus.all': { version: 1, template: 'Consider all aspects: readability, performance, and maintainability' },
+  'refactor_suggestions.prompt': {
+    version: 1,
+    template: `Suggest refactoring improvements for this {{language}} code.
+{{focus}}.
+
+Original code:
+${FENCE}{{language}}
+{{code}}
+${FENCE}
+
+Provide:
+1. Specific refactoring suggestions with explanations
+2. Code snippets showing the improvements
+3. Benefits of each change
+4. Priority ranking (HIGH, MEDIUM, LOW)`
+  },
+
+  'refactor_suggestions.edits': {
+    version: 1,
+    template: `Suggest refactoring improvements for this {{language}} code.
+{{focus}}.
+
+Original code:
+${FENCE}{{language}}
+{{code}}
+${FENCE}
+
+Respond with JSON only: {"suggestions": [...]}. Each suggestion has:
+- title: a short name for the change
+- priority: "high", "medium" or "low"
+- rationale: why the change is worth making
+- original: the complete lines the change replaces, copied exactly from the code above, including indentation
+- replacement: the new lines that replace them, with the same indentation
+Keep each suggestion to one contiguous block of lines, and don't let two suggestions change the same lines.`
+  },
+  'refactor_suggestions.edits_repair': {
+    version: 1,
+    template: `These refactoring suggestions for the {{language}} code below could not be applied:
+{{rejected}}
+
+Code:
+${FENCE}{{language}}
+{{code}}
+${FENCE}
+
+Return corrected versions of only these suggestions as JSON: {"suggestions": [...]}, with the same fields (title, priority, rationale, original, replacement). "original" must be lines copied exactly from the code. Leave out any suggestion that can't be fixed.`
+  },
+
+  // generate_tests
+  'generate_tests.prompt': {
+    version: 1,
+    template: `Generate comprehensive test cases for this {{language}} code.
+{{frameworkInstruction}}
+Target coverage: {{coverageTarget}}%
+
+Code to test:
+${FENCE}{{language}}
+{{code}}
+${FENCE}
+
+Generate tests that include:
+1. Unit tests for each function/method
+2. Edge cases and boundary conditions
+3. Error handling scenarios
+4. Integration tests if applicable
+5. Mock objects/stubs where needed
+6. Clear test descriptions
+7. Assertions with expected values`
+  },
+
+  'generate_tests.repair': {
+    version: 1,
+    template: `These {{language}} tests do not compile.
+
+Code under test:
+${FENCE}{{language}}
+{{code}}
+${FENCE}
+
+Tests:
+${FENCE}{{language}}
+{{testCode}}
+${FENCE}
+
+Compiler errors:
+{{diagnostics}}
+
+Fix every error and return the complete corrected test file in a single code block. Keep the tests that already work.`
+  },
+
+  // process_markdown
+  'process_markdown.action.streamline': {
+    version: 1,
+    template: `Streamline this documentation to be more concise and clear while preserving all critical information. Focus on:
+- Removing redundancy
+- Improving clarity
+- Better organization
+- Highlighting key features
+- Making it scannable`
+  },
+  'process_markdown.action.technical': {
+    version: 1,
+    template: `Convert this documentation into a detailed technical specification. Include:
+- Architecture details
+- Implementation specifics
+- API references
+- Code examples
+- Performance considerations
+- Security notes`
+  },
+  'process_markdown.action.executive': {
+    version: 1,
+    template: `Create an executive summary of this documentation. Focus on:
+- Business value
+- Key capabilities
+- ROI potential
+- Strategic advantages
+- High-level architecture`
+  },
+  'process_markdown.action.api': {
+    version: 1,
+    template: `Transform this into API documentation. Structure it with:
+- Endpoint definitions
+- Request/response formats
+- Authentication details
+- Error codes
+- Usage examples
+- Rate limits`
+  },
+  'process_markdown.action.tutorial': {
+    version: 1,
+    template: `Convert this into a step-by-step tutorial. Include:
+- Prerequisites
+- Setup instructions
+- Hands-on exercises
+- Code examples
+- Troubleshooting tips
+- Best practices`
+  },
+  'process_markdown.format.markdown': { version: 1, template: 'Output in clean, well-structured markdown format' },
+  'process_markdown.format.html': { version: 1, template: 'Output in semantic HTML with appropriate tags' },
+  'process_markdown.format.plain': { version: 1, template: 'Output in plain text with clear formatting' },
+  'process_markdown.format.structured': {
+    version: 1,
+    template: 'Output as a JSON object with section titles as keys and section content as string values'
+  },
+  'process_markdown.sections': { version: 1, template: 'Focus particularly on these sections: {{sections}}' },
+  'process_markdown.single': {
+    version: 2,
+    template: `{{action}}
+
+{{sectionsFilter}}
+
+Maximum length: {{maxLength}} words
+{{format}}
+
+Original documentation:
+{{content}}
+
+Processed output:`
+  },
+  'process_markdown.map': {
+    version: 2,
+    template: `{{action}}
+
+This is part {{part}} of {{total}} of a larger document. Process only this part.
+{{sectionsFilter}}
+
+Maximum length: {{maxLength}} words
+{{format}}
+
+Original documentation (part {{part}} of {{total}}):
+{{content}}
+
+Processed output:`
+  },
+  'process_markdown.reduce': {
+    version: 2,
+    template: `Combine these processed parts of one document into a single coherent result.
+Remove duplication across parts and keep the original order.
+
+Maximum length: {{maxLength}} words
+{{format}}
+
+{{partials}}
+
+Combined output:`
+  },
+
+  // summarize_markdown
+  'summarize_markdown.style.key-findings': {
+    version: 1,
+    variables: SUMMARY_STYLE_VARIABLES,
+    template: `Extract the {{maxPoints}} most important findings or features from this documentation. Focus on:
+- Core capabilities
+- Unique features
+- Critical information
+- Important dependencies or requirements
+- Key benefits`
+  },
+  'summarize_markdown.style.tldr': {
+    version: 1,
+    variables: SUMMARY_STYLE_VARIABLES,
+    template: `Create a TL;DR summary in {{maxWords}} words or less. Include:
+- What it is
+- What it does
+- Why it matters
+- How to use it`
+  },
+  'summarize_markdown.style.overview': {
+    version: 1,
+    variables: SUMMARY_STYLE_VARIABLES,
+    template: `Provide a high-level overview covering:
+- Purpose and goals
+- Main components
+- Use cases
+- Target audience`
+  },
+  'summarize_markdown.style.actionable': {
+    version: 1,
+    variables: SUMMARY_STYLE_VARIABLES,
+    template: `Extract actionable items and next steps:
+- Required actions
+- Setup steps
+- Configuration needed
+- Commands to run
+- Things to verify`
+  },
+  'summarize_markdown.style.technical-summary': {
+    version: 1,
+    variables: SUMMARY_STYLE_VARIABLES,
+    template: `Create a technical summary highlighting:
+- Architecture patterns
+- Technologies used
+- APIs and interfaces
+- Performance characteristics
+- Integration points`
+  },
+  'summarize_markdown.single': {
+    version: 1,
+    template: `{{style}}
+
+Maximum {{maxWords}} words.
+Format as a bulleted list for clarity.
+
+Documentation:
+{{content}}
+
+Summary:`
+  },
+  'summarize_markdown.map': {
+    version: 1,
+    template: `Extract the key points from part {{part}} of {{total}} of this documentation as a bulleted list.
+
+Documentation (part {{part}} of {{total}}):
+{{content}}
+
+Key points:`
+  },
+  'summarize_markdown.reduce': {
+    version: 1,
+    template: `{{style}}
+
+Maximum {{maxWords}} words.
+Format as a bulleted list for clarity.
+
+Key points extracted from each part of the documentation:
+{{partials}}
+
+Summary:`
+  },
+
+  // tag_markdown
+  'tag_markdown.category.technology': { version: 1, template: 'Technologies, platforms, and tech stacks' },
+  'tag_markdown.category.framework': { version: 1, template: 'Frameworks, libraries, and SDKs' },
+  'tag_markdown.category.language': { version: 1, template: 'Programming languages' },
+  'tag_markdown.category.pattern': { version: 1, template: 'Design patterns, architectural patterns' },
+  'tag_markdown.category.domain': { version: 1, template: 'Business domain, industry, use case' },
+  'tag_markdown.category.feature': { version: 1, template: 'Key features and capabilities' },
+  'tag_markdown.category.tool': { version: 1, template: 'Tools, utilities, and services' },
+  'tag_markdown.list': {
+    version: 2,
+    template: `Extract up to {{maxTags}} semantic tags from this markdown documentation.
+Focus on these categories:
+{{categories}}
+
+Return a simple list of tags
+
+Documentation:
+{{content}}
+
+Return as JSON format: {"tags": ["tag1", "tag2"]}:`
+  },
+  'tag_markdown.metadata': {
+    version: 2,
+    template: `Extract up to {{maxTags}} semantic tags from this markdown documentation.
+Focus on these categories:
+{{categories}}
+
+For each tag, provide: tag name, category, and relevance (high/medium/low)
+
+Documentation:
+{{content}}
+
+Return as JSON format: {"tags": [{"tag": "name", "category": "type", "relevance": "high|medium|low"}]}:`
+  },
+
+  // analyze_markdown
+  'analyze_markdown.check.completeness': { version: 1, template: 'Missing sections, incomplete explanations, lacking examples' },
+  'analyze_markdown.check.clarity': { version: 1, template: 'Unclear language, jargon without explanation, ambiguous instructions' },
+  'analyze_markdown.check.structure': { version: 1, template: 'Poor organization, inconsistent formatting, navigation issues' },
+  'analyze_markdown.check.examples': { version: 1, template: 'Lack of examples, unclear code samples, missing use cases' },
+  'analyze_markdown.check.consistency': { version: 1, template: 'Inconsistent terminology, conflicting information, style variations' },
+  'analyze_markdown.report': {
+    version: 1,
+    template: `Provide a detailed analysis with:
+1. Quality score (1-10) for each checked area
+2. Specific issues found with line references where applicable
+3. Improvement recommendations
+4. Priority of fixes (HIGH, MEDIUM, LOW)
+5. Overall documentation grade (A-F)`
+  },
+  'analyze_markdown.single': {
+    version: 1,
+    template: `Analyze this markdown documentation for:
+{{checks}}
+
+Documentation:
+{{content}}
+
+{{report}}`
+  },
+  'analyze_markdown.map': {
+    version: 1,
+    template: `Analyze part {{part}} of {{total}} of this markdown documentation for:
+{{checks}}
+
+Documentation (part {{part}} of {{total}}):
+{{content}}
+
+List the specific issues found in this part with line references where applicable, and note its strengths.`
+  },
+  'analyze_markdown.reduce': {
+    version: 1,
+    template: `Combine these reviews of consecutive parts of one markdown document into a single analysis covering:
+{{checks}}
+
+{{partials}}
+
+{{report}}`
+  }
+};
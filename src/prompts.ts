@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { PromptTemplateError } from './validation.js';
+import { builtinTemplates, BuiltinTemplate } from './prompt-templates.js';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+const TEMPLATE_EXTENSIONS = new Set(['.md', '.txt', '.prompt']);
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  template: string;
+  // Variables the caller supplies when rendering
+  variables: Set<string>;
+  // Model id glob (`*` wildcard, case-insensitive); unset applies to every model
+  model?: string;
+  // 'builtin' or the file the template was loaded from
+  source: string;
+}
+
+export function variablesOf(template: string): Set<string> {
+  return new Set([...template.matchAll(VARIABLE_PATTERN)].map(match => match[1]!));
+}
+
+function modelMatcher(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`, 'i');
+}
+
+// Splits `---`-delimited `key: value` front matter from the template body
+function parseTemplateFile(raw: string): { fields: Record<string, string>; body: string } | undefined {
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return undefined;
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1]!.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+  return { fields, body: match[2]!.replace(/\s+$/, '') };
+}
+
+/**
+ * Prompt templates with `{{variable}}` placeholders. Built-in defaults can be
+ * overridden by files in the templates directory, either for every model or
+ * only for models matching a pattern. Overrides are validated when loaded.
+ */
+export class PromptRegistry {
+  private builtins = new Map<string, PromptTemplate>();
+  // Per id, model-specific overrides first, then the generic one
+  private overrides = new Map<string, PromptTemplate[]>();
+
+  constructor(builtins: Record<string, BuiltinTemplate>) {
+    for (const [id, builtin] of Object.entries(builtins)) {
+      this.register(id, builtin);
+    }
+  }
+
+  // Adds a template at runtime (e.g. a custom tool's prompt); ids must be unique
+  register(id: string, { version, template, variables }: BuiltinTemplate) {
+    if (this.builtins.has(id)) {
+      throw new PromptTemplateError(`Prompt template ${id} is already registered`);
+    }
+    this.builtins.set(id, {
+      id,
+      version,
+      template,
+      variables: new Set(variables ?? variablesOf(template)),
+      source: 'builtin'
+    });
+  }
+
+  /**
+   * Load overrides from `dir`. Every file is checked and all problems are
+   * reported together; nothing is replaced unless the whole directory is valid.
+   */
+  async load(dir: string = config.prompts.dir): Promise<void> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(dir)).filter(file => TEMPLATE_EXTENSIONS.has(path.extname(file))).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.debug('No prompt template directory, using built-in prompts', { dir });
+        return;
+      }
+      throw error;
+    }
+
+    const problems: string[] = [];
+    const loaded: PromptTemplate[] = [];
+    const seen = new Set<string>();
+
+    for (const file of files) {
+      const source = path.join(dir, file);
+      const parsed = parseTemplateFile(await fs.readFile(source, 'utf-8'));
+      if (!parsed) {
+        problems.push(`${file}: missing front matter (---, id:, version:, ---)`);
+        continue;
+      }
+
+      const { id, version, model } = parsed.fields;
+      const builtin = id ? this.builtins.get(id) : undefined;
+      if (!id || !builtin) {
+        problems.push(`${file}: unknown template id '${id ?? ''}'`);
+        continue;
+      }
+      if (!version || !/^[1-9]\d*$/.test(version)) {
+        problems.push(`${file}: version must be a positive integer`);
+        continue;
+      }
+      if (!parsed.body.trim()) {
+        problems.push(`${file}: template body is empty`);
+        continue;
+      }
+
+      const allowed = builtin.variables;
+      const unknown = [...variablesOf(parsed.body)].filter(name => !allowed.has(name));
+      if (unknown.length > 0) {
+        problems.push(`${file}: unknown variables ${unknown.join(', ')} (available: ${[...allowed].join(', ') || 'none'})`);
+        continue;
+      }
+
+      const key = `${id}@${(model || '*').toLowerCase()}`;
+      if (seen.has(key)) {
+        problems.push(`${file}: duplicate override for ${id}${model ? ` (model ${model})` : ''}`);
+        continue;
+      }
+      seen.add(key);
+
+      loaded.push({
+        id,
+        version: parseInt(version),
+        template: parsed.body,
+        variables: allowed,
+        model: model || undefined,
+        source
+      });
+    }
+
+    if (problems.length > 0) {
+      throw new PromptTemplateError(`Invalid prompt templates in ${dir}:\n${problems.join('\n')}`, problems);
+    }
+
+    this.overrides.clear();
+    for (const template of loaded) {
+      const list = this.overrides.get(template.id) ?? [];
+      list.push(template);
+      // Model-specific overrides take precedence over generic ones
+      list.sort((a, b) => Number(!a.model) - Number(!b.model));
+      this.overrides.set(template.id, list);
+    }
+
+    logger.info('Loaded prompt templates', {
+      dir,
+      templates: loaded.map(({ id, version, model }) => ({ id, version, model }))
+    });
+  }
+
+  // The template used for `id` when `model` serves the request
+  resolve(id: string, model?: string): PromptTemplate {
+    const override = this.overrides.get(id)?.find(template =>
+      !template.model || (model !== undefined && modelMatcher(template.model).test(model))
+    );
+    const template = override ?? this.builtins.get(id);
+    if (!template) {
+      throw new PromptTemplateError(`Unknown prompt template: ${id}`);
+    }
+    return template;
+  }
+
+  render(id: string, variables: Record<string, string | number>, model?: string): string {
+    const template = this.resolve(id, model);
+    // Tools render several templates per call; versions are logged per call instead
+    logger.debug('Rendering prompt template', {
+      template: id,
+      version: template.version,
+      source: template.source,
+      model
+    });
+
+    return template.template.replace(VARIABLE_PATTERN, (_, name: string) => {
+      const value = variables[name];
+      if (value === undefined) {
+        throw new PromptTemplateError(`Prompt template ${id} uses {{${name}}}, which was not provided`);
+      }
+      return String(value);
+    });
+  }
+
+  /**
+   * Version of each template under `prefix` that `model` would get, with the
+   * file it came from when overridden, for logging which prompts a call used.
+   */
+  versions(prefix: string, model?: string): Record<string, number | string> {
+    const versions: Record<string, number | string> = {};
+    for (const id of [...this.builtins.keys()].filter(id => id.startsWith(`${prefix}.`)).sort()) {
+      const template = this.resolve(id, model);
+      versions[id] = template.source === 'builtin' ? template.version : `${template.version} (${template.source})`;
+    }
+    return versions;
+  }
+
+  /**
+   * Hash of every template (built-in and override) under `prefix`, so cached
+   * responses are not reused after a prompt changes.
+   */
+  fingerprint(prefix: string): string {
+    const hash = crypto.createHash('sha256');
+    const ids = [...this.builtins.keys()].filter(id => id.startsWith(`${prefix}.`)).sort();
+    for (const id of ids) {
+      for (const template of [this.builtins.get(id)!, ...(this.overrides.get(id) ?? [])]) {
+        hash.update(`${id}\0${template.version}\0${template.model ?? ''}\0${template.template}\0`);
+      }
+    }
+    return hash.digest('hex').slice(0, 16);
+  }
+}
+
+export const prompts = new PromptRegistry(builtinTemplates);
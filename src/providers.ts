@@ -0,0 +1,479 @@
+import OpenAI from 'openai';
+import pTimeout from 'p-timeout';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import {
+  LMStudioResponseSchema,
+  LMStudioModelsResponseSchema,
+  LMStudioLoadResponseSchema,
+  EmbeddingResponseSchema,
+  OllamaChatResponseSchema,
+  OllamaEmbedResponseSchema,
+  OllamaTagsResponseSchema
+} from './validation.js';
+
+export type ProviderType = 'lmstudio' | 'ollama' | 'openai-compatible';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON schema the backend should constrain its output to
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, any>;
+}
+
+// Sampling controls beyond temperature; unset ones keep the backend's defaults
+export interface SamplingParams {
+  topP?: number;
+  topK?: number;
+  stop?: string[];
+  seed?: number;
+  repeatPenalty?: number;
+}
+
+export interface CompletionRequest extends SamplingParams {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Only sent when the provider reports the jsonSchema capability
+  responseFormat?: ResponseFormat;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: CompletionUsage;
+}
+
+// What a stream reports once it ends, when the backend sends it
+export type StreamSummary = Partial<Omit<CompletionResult, 'content'>>;
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+}
+
+export interface EmbeddingResult {
+  // One vector per input, in input order
+  embeddings: number[][];
+  model: string;
+  promptTokens?: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  ownedBy?: string;
+  size?: number;
+  // 'llm' or 'embedding', when the backend says
+  type?: string;
+  // Unset when the backend only lists models that can serve requests
+  loaded?: boolean;
+  maxContextLength?: number;
+}
+
+export interface LoadModelOptions {
+  contextLength?: number;
+}
+
+export interface LoadedModel {
+  model: string;
+  instanceId: string;
+  loadTimeSeconds?: number;
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  embeddings: boolean;
+  jsonSchema: boolean;
+  modelManagement: boolean;
+}
+
+/**
+ * A chat completion backend. Tools never talk to a provider directly;
+ * LMStudioClient wraps it with caching, retries and rate limiting.
+ */
+export interface LLMProvider {
+  readonly type: ProviderType;
+  readonly baseUrl: string;
+  readonly capabilities: ProviderCapabilities;
+  complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResult>;
+  completeStream(
+    request: CompletionRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<StreamSummary>;
+  embed(request: EmbeddingRequest, signal?: AbortSignal): Promise<EmbeddingResult>;
+  listModels(): Promise<ModelInfo[]>;
+  checkHealth(): Promise<boolean>;
+  // Implemented when capabilities.modelManagement is set
+  loadModel?(model: string, options?: LoadModelOptions): Promise<LoadedModel>;
+  // Resolves with the unloaded instance ids
+  unloadModel?(model: string): Promise<string[]>;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API
+ * (llama.cpp server, vLLM, LocalAI, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type: ProviderType = 'openai-compatible';
+  readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    embeddings: true,
+    jsonSchema: false,
+    modelManagement: false
+  };
+  protected client: OpenAI;
+
+  constructor(readonly baseUrl: string, apiKey: string) {
+    this.client = new OpenAI({
+      baseURL: `${baseUrl}/v1`,
+      apiKey,
+      timeout: config.lmStudio.timeout,
+      maxRetries: 0 // LMStudioClient handles retries
+    });
+  }
+
+  // top_k and repeat_penalty are not OpenAI parameters, but LM Studio and
+  // llama.cpp read them under these names and other servers ignore them
+  private buildParams(request: CompletionRequest) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: request.topP,
+      stop: request.stop,
+      seed: request.seed,
+      ...(request.topK !== undefined && { top_k: request.topK }),
+      ...(request.repeatPenalty !== undefined && { repeat_penalty: request.repeatPenalty }),
+      response_format: request.responseFormat && {
+        type: 'json_schema' as const,
+        json_schema: request.responseFormat
+      }
+    };
+  }
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResult> {
+    const completion = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: false
+    }, { signal });
+
+    const validated = LMStudioResponseSchema.parse(completion);
+    return {
+      content: validated.choices[0]?.message?.content || '',
+      model: validated.model,
+      usage: validated.usage && {
+        promptTokens: validated.usage.prompt_tokens,
+        completionTokens: validated.usage.completion_tokens,
+        totalTokens: validated.usage.total_tokens
+      }
+    };
+  }
+
+  async completeStream(
+    request: CompletionRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<StreamSummary> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+      // Usage arrives in a final chunk without choices
+      stream_options: { include_usage: true }
+    }, { signal });
+
+    const summary: StreamSummary = {};
+    for await (const chunk of stream) {
+      summary.model = chunk.model || summary.model;
+      if (chunk.usage) {
+        summary.usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens
+        };
+      }
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        onChunk(content);
+      }
+    }
+    return summary;
+  }
+
+  async embed(request: EmbeddingRequest, signal?: AbortSignal): Promise<EmbeddingResult> {
+    const response = await this.client.embeddings.create({
+      model: request.model,
+      input: request.input,
+      // The SDK otherwise asks for base64, which not every local server supports
+      encoding_format: 'float'
+    }, { signal });
+
+    const validated = EmbeddingResponseSchema.parse(response);
+    return {
+      embeddings: [...validated.data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+      model: validated.model,
+      promptTokens: validated.usage?.prompt_tokens
+    };
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await this.client.models.list();
+    return response.data.map(model => ({
+      id: model.id,
+      ownedBy: model.owned_by
+    }));
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      await pTimeout(this.client.models.list(), { milliseconds: 5000 });
+      return true;
+    } catch (error) {
+      logger.debug(`${this.type} health check failed`, { baseUrl: this.baseUrl, error });
+      return false;
+    }
+  }
+}
+
+/**
+ * LM Studio's OpenAI-compatible server, which additionally supports
+ * structured output and its own model management API.
+ */
+export class LMStudioProvider extends OpenAICompatibleProvider {
+  override readonly type: ProviderType = 'lmstudio';
+  override readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    embeddings: true,
+    jsonSchema: true,
+    modelManagement: true
+  };
+
+  constructor(baseUrl: string, private apiKey: string) {
+    super(baseUrl, apiKey);
+  }
+
+  private async api(endpoint: string, body?: Record<string, any>, timeout = 5000): Promise<unknown> {
+    const response = await fetch(`${this.baseUrl}/api/v1${endpoint}`, {
+      method: body ? 'POST' : 'GET',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${this.apiKey}` },
+      body: body && JSON.stringify(body),
+      signal: AbortSignal.timeout(timeout)
+    });
+
+    if (!response.ok) {
+      throw new Error(`LM Studio returned ${response.status}: ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  // Downloaded models with their load state; older LM Studio versions only
+  // have the OpenAI endpoint, which lists the models that can serve requests
+  override async listModels(): Promise<ModelInfo[]> {
+    let validated;
+    try {
+      validated = LMStudioModelsResponseSchema.parse(await this.api('/models'));
+    } catch (error) {
+      logger.debug('LM Studio model management API unavailable, using /v1/models', { error });
+      return super.listModels();
+    }
+
+    return validated.models.map(model => ({
+      id: model.key,
+      type: model.type,
+      size: model.size_bytes,
+      loaded: model.loaded_instances.length > 0,
+      maxContextLength: model.max_context_length
+    }));
+  }
+
+  async loadModel(model: string, options: LoadModelOptions = {}): Promise<LoadedModel> {
+    // Loading a large model can take minutes
+    const validated = LMStudioLoadResponseSchema.parse(await this.api('/models/load', {
+      model,
+      context_length: options.contextLength
+    }, config.lmStudio.loadTimeout));
+    return { model, instanceId: validated.instance_id, loadTimeSeconds: validated.load_time_seconds };
+  }
+
+  // Accepts a model key (unloading all of its instances) or an instance id
+  async unloadModel(model: string): Promise<string[]> {
+    const { models } = LMStudioModelsResponseSchema.parse(await this.api('/models'));
+    const instances = models.find(entry => entry.key === model)?.loaded_instances.map(instance => instance.id) ?? [model];
+
+    for (const instanceId of instances) {
+      await this.api('/models/unload', { instance_id: instanceId }, config.lmStudio.loadTimeout);
+    }
+    return instances;
+  }
+}
+
+/**
+ * Ollama's native API (/api/chat, /api/tags).
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly type: ProviderType = 'ollama';
+  readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    embeddings: true,
+    jsonSchema: true,
+    modelManagement: false
+  };
+
+  constructor(readonly baseUrl: string) {}
+
+  private async post(endpoint: string, body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    const timeout = AbortSignal.timeout(config.lmStudio.timeout);
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama returned ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  }
+
+  private buildChatBody(request: CompletionRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      stream,
+      format: request.responseFormat?.schema,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens,
+        top_p: request.topP,
+        top_k: request.topK,
+        stop: request.stop,
+        seed: request.seed,
+        repeat_penalty: request.repeatPenalty
+      }
+    };
+  }
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResult> {
+    const response = await this.post('/api/chat', this.buildChatBody(request, false), signal);
+    const validated = OllamaChatResponseSchema.parse(await response.json());
+
+    const promptTokens = validated.prompt_eval_count ?? 0;
+    const completionTokens = validated.eval_count ?? 0;
+    return {
+      content: validated.message.content,
+      model: validated.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  async completeStream(
+    request: CompletionRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<StreamSummary> {
+    const response = await this.post('/api/chat', this.buildChatBody(request, true), signal);
+    if (!response.body) {
+      throw new Error('Ollama returned an empty stream');
+    }
+
+    // Ollama streams newline-delimited JSON objects
+    const decoder = new TextDecoder();
+    const summary: StreamSummary = {};
+    let buffer = '';
+    for await (const bytes of response.body as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line);
+        if (chunk.message?.content) {
+          onChunk(chunk.message.content);
+        }
+        // The final object carries the token counts
+        if (chunk.done) {
+          const promptTokens = chunk.prompt_eval_count ?? 0;
+          const completionTokens = chunk.eval_count ?? 0;
+          summary.model = chunk.model;
+          summary.usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+        }
+      }
+    }
+    return summary;
+  }
+
+  async embed(request: EmbeddingRequest, signal?: AbortSignal): Promise<EmbeddingResult> {
+    const response = await this.post('/api/embed', { model: request.model, input: request.input }, signal);
+    const validated = OllamaEmbedResponseSchema.parse(await response.json());
+    return {
+      embeddings: validated.embeddings,
+      model: validated.model,
+      promptTokens: validated.prompt_eval_count
+    };
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await fetch(`${this.baseUrl}/api/tags`, {
+      signal: AbortSignal.timeout(5000)
+    });
+    if (!response.ok) {
+      throw new Error(`Ollama returned ${response.status}`);
+    }
+
+    const validated = OllamaTagsResponseSchema.parse(await response.json());
+    return validated.models.map(model => ({
+      id: model.name,
+      size: model.size
+    }));
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      await this.listModels();
+      return true;
+    } catch (error) {
+      logger.debug('ollama health check failed', { baseUrl: this.baseUrl, error });
+      return false;
+    }
+  }
+}
+
+const defaultBaseUrls: Record<ProviderType, string> = {
+  'lmstudio': config.lmStudio.baseUrl,
+  'ollama': 'http://localhost:11434',
+  'openai-compatible': 'http://localhost:8080'
+};
+
+export function createProvider(
+  type: ProviderType = config.provider.type,
+  baseUrl: string = config.provider.baseUrl || defaultBaseUrls[type]
+): LLMProvider {
+  const apiKey = config.provider.apiKey || config.lmStudio.apiKey;
+
+  switch (type) {
+    case 'lmstudio':
+      return new LMStudioProvider(baseUrl, apiKey);
+    case 'ollama':
+      return new OllamaProvider(baseUrl);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(baseUrl, apiKey);
+  }
+}
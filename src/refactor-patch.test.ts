@@ -0,0 +1,126 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from '@jest/globals';
+import { applyPatch } from 'diff';
+import { buildRefactorPatch } from './refactor-patch.js';
+import type { RefactorEdit } from './validation.js';
+
+const code = Array.from({ length: 20 }, (_, i) => `const line${i + 1} = ${i + 1};`).join('\n') + '\n';
+
+function edit(original: string, replacement: string, priority: RefactorEdit['priority'] = 'medium'): RefactorEdit {
+  return { title: `replace ${original.split('\n')[0]}`, priority, rationale: 'test', original, replacement };
+}
+
+// Runs `git apply --check`, which rejects hunks that lack context
+function gitApplies(patch: string, original = code): boolean {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refactor-patch-'));
+  try {
+    fs.writeFileSync(path.join(dir, 'input.ts'), original);
+    fs.writeFileSync(path.join(dir, 'change.patch'), patch);
+    execFileSync('git', ['apply', '--check', 'change.patch'], { cwd: dir, stdio: 'pipe' });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe('buildRefactorPatch', () => {
+  it('builds a patch that applies to the original', () => {
+    const result = buildRefactorPatch(code, [edit('const line5 = 5;', 'const five = 5;')], 'input.ts');
+
+    expect(result.rejected).toEqual([]);
+    expect(result.suggestions).toHaveLength(1);
+    expect(result.suggestions[0]).toMatchObject({ startLine: 5, endLine: 5, hunks: [1] });
+    expect(result.patch).toContain('--- a/input.ts');
+    expect(result.patch).toContain('+++ b/input.ts');
+    expect(applyPatch(code, result.patch)).toBe(code.replace('const line5 = 5;', 'const five = 5;'));
+    expect(gitApplies(result.patch)).toBe(true);
+  });
+
+  it('merges suggestions on adjacent lines into one hunk with full context', () => {
+    const edits = [
+      edit('const line8 = 8;', 'const eight = 8;'),
+      edit('const line9 = 9;', 'const nine = 9;'),
+      edit('const line11 = 11;', 'const eleven = 11;')
+    ];
+    const result = buildRefactorPatch(code, edits, 'input.ts');
+
+    expect(result.rejected).toEqual([]);
+    expect(result.suggestions.map(suggestion => suggestion.hunks)).toEqual([[1], [1], [1]]);
+    expect(result.patch).toContain('@@ -5,10 +5,10 @@');
+    expect(gitApplies(result.patch)).toBe(true);
+    for (const suggestion of result.suggestions) {
+      expect(gitApplies(suggestion.patch)).toBe(true);
+    }
+  });
+
+  it('keeps distant suggestions in separate hunks', () => {
+    const result = buildRefactorPatch(code, [
+      edit('const line2 = 2;', 'const two = 2;'),
+      edit('const line18 = 18;', 'const eighteen = 18;\nconst extra = 0;')
+    ], 'input.ts');
+
+    expect(result.suggestions.map(suggestion => suggestion.hunks)).toEqual([[1], [2]]);
+    expect(result.patch).toContain('@@ -15,6 +15,7 @@');
+    expect(gitApplies(result.patch)).toBe(true);
+  });
+
+  it('matches quoted lines that differ only in indentation', () => {
+    const indented = 'function f() {\n  return 1;\n}\n';
+    const result = buildRefactorPatch(indented, [edit('return 1;', '  return 2;')], 'f.ts');
+
+    expect(result.rejected).toEqual([]);
+    expect(applyPatch(indented, result.patch)).toBe('function f() {\n  return 2;\n}\n');
+  });
+
+  it('rejects missing, ambiguous, unchanged and overlapping suggestions', () => {
+    const repeated = 'a();\nb();\na();\nz();\n';
+    const result = buildRefactorPatch(repeated, [
+      edit('missing();', 'x();'),
+      edit('a();', 'x();'),
+      edit('z();', 'z();'),
+      edit('b();\na();', 'c();', 'high'),
+      edit('a();\nb();', 'd();', 'low')
+    ], 'r.ts');
+
+    expect(result.suggestions.map(suggestion => suggestion.replacement)).toEqual(['c();']);
+    const reasons = result.rejected.map(rejected => rejected.reason);
+    expect(reasons).toEqual(expect.arrayContaining([
+      expect.stringContaining('does not occur'),
+      expect.stringContaining('occurs 2 times'),
+      expect.stringContaining('changes the same lines'),
+      'replacement is identical to the original'
+    ]));
+  });
+
+  it('keeps CRLF line endings in replacement lines', () => {
+    const crlf = code.replace(/\n/g, '\r\n');
+    const result = buildRefactorPatch(crlf, [
+      edit('const line5 = 5;', 'const five = 5;\nconst extra = 0;'),
+      edit('const line20 = 20;', 'const twenty = 20;')
+    ], 'input.ts');
+
+    expect(result.rejected).toEqual([]);
+    expect(result.patch).toContain('+const five = 5;\r\n+const extra = 0;\r\n');
+    expect(applyPatch(crlf, result.patch)).toBe(crlf
+      .replace('const line5 = 5;', 'const five = 5;\r\nconst extra = 0;')
+      .replace('const line20 = 20;', 'const twenty = 20;'));
+    expect(gitApplies(result.patch, crlf)).toBe(true);
+  });
+
+  it('keeps a missing final newline when replacing the last line', () => {
+    const unterminated = 'a();\r\nb();';
+    const result = buildRefactorPatch(unterminated, [edit('b();', 'c();\nd();')], 'input.ts');
+    expect(applyPatch(unterminated, result.patch)).toBe('a();\r\nc();\r\nd();');
+  });
+
+  it('returns an empty patch when nothing applies', () => {
+    const result = buildRefactorPatch(code, [edit('nope', 'x')], 'input.ts');
+    expect(result.patch).toBe('');
+    expect(result.suggestions).toEqual([]);
+  });
+});
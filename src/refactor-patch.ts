@@ -0,0 +1,178 @@
+import { applyPatch, formatPatch, structuredPatch, StructuredPatchHunk } from 'diff';
+import type { RefactorEdit } from './validation.js';
+
+// Context lines around each hunk, as git and patch expect
+const CONTEXT = 3;
+
+const priorityRank: Record<RefactorEdit['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+// A suggestion whose original text was found: it replaces lines [start, end)
+interface LocatedEdit {
+  edit: RefactorEdit;
+  start: number;
+  end: number;
+}
+
+export interface PatchedSuggestion extends RefactorEdit {
+  startLine: number;
+  endLine: number;
+  // 1-based positions of the hunks of the combined patch with this suggestion's
+  // changes; suggestions close together share a hunk
+  hunks: number[];
+  // This suggestion alone, as a patch against the original
+  patch: string;
+}
+
+export interface RejectedSuggestion {
+  edit: RefactorEdit;
+  reason: string;
+}
+
+export interface RefactorPatch {
+  // Every accepted suggestion as one patch against the original
+  patch: string;
+  suggestions: PatchedSuggestion[];
+  rejected: RejectedSuggestion[];
+}
+
+// Lines of `text` without trailing blank lines
+function snippetLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  while (lines.length > 0 && !lines[lines.length - 1]!.trim()) lines.pop();
+  return lines;
+}
+
+// Start indexes where `snippet` matches `lines`, comparing lines with `normalize`
+function findMatches(lines: string[], snippet: string[], normalize: (line: string) => string): number[] {
+  const wanted = snippet.map(normalize);
+  const matches: number[] = [];
+  for (let start = 0; start + wanted.length <= lines.length; start++) {
+    if (wanted.every((line, offset) => normalize(lines[start + offset]!) === line)) {
+      matches.push(start);
+    }
+  }
+  return matches;
+}
+
+// Exact match first, then ignoring indentation and trailing whitespace
+function locate(lines: string[], edit: RefactorEdit): LocatedEdit | string {
+  const snippet = snippetLines(edit.original);
+  if (snippet.length === 0) {
+    return 'original is empty';
+  }
+
+  let matches = findMatches(lines, snippet, line => line.replace(/\r$/, ''));
+  if (matches.length === 0) {
+    matches = findMatches(lines, snippet, line => line.trim());
+  }
+  if (matches.length === 0) {
+    return 'original does not occur in the code; copy the lines exactly';
+  }
+  if (matches.length > 1) {
+    return `original occurs ${matches.length} times in the code; include enough surrounding lines to make it unique`;
+  }
+  return { edit, start: matches[0]!, end: matches[0]! + snippet.length };
+}
+
+// Lines split on '\n' keep a CRLF file's '\r'; `cr` is that suffix for the
+// replacement lines, and the last one keeps the ending of the line it replaces
+function replaceLines(lines: string[], edits: LocatedEdit[], cr: string): string[] {
+  const result = [...lines];
+  // Back to front, so earlier line numbers stay valid
+  for (const located of [...edits].sort((a, b) => b.start - a.start)) {
+    const replacement = snippetLines(located.edit.replacement);
+    const lastEnding = lines[located.end - 1]!.endsWith('\r') ? '\r' : '';
+    result.splice(located.start, located.end - located.start, ...replacement.map((line, index) =>
+      line + (index === replacement.length - 1 ? lastEnding : cr)));
+  }
+  return result;
+}
+
+/**
+ * Whether every hunk carries the context a strict applier like `git apply`
+ * needs: a hunk may only lack leading context at the start of the file and
+ * trailing context at its end, and the patch must reproduce `expected`.
+ */
+function appliesStrictly(code: string, patch: string, expected: string, hunks: StructuredPatchHunk[]): boolean {
+  const lineCount = code.split('\n').length - (code.endsWith('\n') ? 1 : 0);
+  const anchored = hunks.every(hunk => {
+    const body = hunk.lines.filter(line => !line.startsWith('\\'));
+    const leading = body.findIndex(line => !line.startsWith(' '));
+    const trailing = [...body].reverse().findIndex(line => !line.startsWith(' '));
+    const end = hunk.oldStart + hunk.oldLines - 1;
+    return leading >= Math.min(CONTEXT, hunk.oldStart - 1) && trailing >= Math.min(CONTEXT, lineCount - end);
+  });
+  return anchored && applyPatch(code, patch) === expected;
+}
+
+/**
+ * Turn refactoring suggestions, each quoting the lines it replaces, into a
+ * unified patch against `code`. Suggestions whose lines can't be found, or
+ * that overlap a higher-priority suggestion, are rejected with the reason.
+ * Every hunk keeps full context, so suggestions close together share a hunk.
+ * Both the combined patch and each suggestion's own patch are checked to
+ * apply with that context. File names get git's a/ and b/ prefixes.
+ */
+export function buildRefactorPatch(code: string, edits: RefactorEdit[], fileName: string): RefactorPatch {
+  // A trailing newline leaves an empty last element, which no edit may touch
+  const lines = code.split('\n');
+  const editable = code.endsWith('\n') ? lines.slice(0, -1) : lines;
+  // Replacement lines take the file's line ending, judged by its first line break
+  const cr = /^[^\n]*\r\n/.test(code) ? '\r' : '';
+  const rejected: RejectedSuggestion[] = [];
+  const accepted: LocatedEdit[] = [];
+
+  const byPriority = [...edits].sort((a, b) => priorityRank[a.priority] - priorityRank[b.priority]);
+  for (const edit of byPriority) {
+    const located = locate(editable, edit);
+    if (typeof located === 'string') {
+      rejected.push({ edit, reason: located });
+      continue;
+    }
+    const overlap = accepted.find(other => located.start < other.end && other.start < located.end);
+    if (overlap) {
+      rejected.push({ edit, reason: `changes the same lines as "${overlap.edit.title}"; combine them into one suggestion or pick different lines` });
+      continue;
+    }
+    accepted.push(located);
+  }
+  accepted.sort((a, b) => a.start - b.start);
+
+  const join = (result: string[]) => result.join('\n') + (code.endsWith('\n') ? '\n' : '');
+  const diff = (edited: string) =>
+    structuredPatch(`a/${fileName}`, `b/${fileName}`, code, edited, undefined, undefined, { context: CONTEXT });
+  const patched: Array<Omit<PatchedSuggestion, 'hunks'>> = [];
+  const applied: LocatedEdit[] = [];
+
+  for (const located of accepted) {
+    const edited = join(replaceLines(editable, [located], cr));
+    const single = diff(edited);
+    if (single.hunks.length === 0) {
+      rejected.push({ edit: located.edit, reason: 'replacement is identical to the original' });
+      continue;
+    }
+    const patch = formatPatch(single);
+    if (!appliesStrictly(code, patch, edited, single.hunks)) {
+      rejected.push({ edit: located.edit, reason: 'patch does not apply to the original' });
+      continue;
+    }
+    patched.push({ ...located.edit, startLine: located.start + 1, endLine: located.end, patch });
+    applied.push(located);
+  }
+
+  // One diff of all accepted suggestions: jsdiff merges changes whose context
+  // would touch into a single hunk
+  const expected = join(replaceLines(editable, applied, cr));
+  const combined = diff(expected);
+  const patch = combined.hunks.length > 0 ? formatPatch(combined) : '';
+  if (patch && !appliesStrictly(code, patch, expected, combined.hunks)) {
+    throw new Error('Combined refactoring patch does not apply to the original');
+  }
+
+  const suggestions = patched.map(suggestion => ({
+    ...suggestion,
+    hunks: combined.hunks.flatMap((hunk, index) =>
+      hunk.oldStart <= suggestion.endLine && suggestion.startLine < hunk.oldStart + hunk.oldLines ? [index + 1] : [])
+  }));
+  return { patch, suggestions, rejected };
+}
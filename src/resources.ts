@@ -0,0 +1,139 @@
+import { EventEmitter } from 'events';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { ValidationError } from './validation.js';
+import type { LMStudioClient } from './lm-studio-client.js';
+
+export const MODELS_URI = 'lmstudio://models';
+export const METRICS_URI = 'lmstudio://metrics';
+export const HEALTH_URI = 'lmstudio://health';
+const OUTPUT_PREFIX = 'lmstudio://outputs/';
+
+export interface ResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+interface ToolOutput {
+  requestId: string;
+  tool: string;
+  text: string;
+  createdAt: number;
+  // Outputs are only visible to the session that produced them
+  sessionId?: string;
+}
+
+const STATIC_RESOURCES: ResourceInfo[] = [
+  { uri: MODELS_URI, name: 'Models', description: 'Models the backend has loaded and the one tools will use', mimeType: 'application/json' },
+  { uri: METRICS_URI, name: 'Metrics', description: 'Request, error and cache counters', mimeType: 'application/json' },
+  { uri: HEALTH_URI, name: 'Health', description: 'Backend health as of the last check', mimeType: 'application/json' }
+];
+
+/**
+ * Backs the MCP resources capability: backend state as JSON documents plus the
+ * most recent tool outputs. Emits `updated` (uri) when a watched document
+ * changes and `listChanged` (sessionId) when a new output is recorded.
+ */
+export class ResourceHub extends EventEmitter {
+  // Insertion order is age order, so the first entry is evicted first
+  private outputs = new Map<string, ToolOutput>();
+  private snapshots = new Map<string, string>();
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(private client: LMStudioClient, private maxOutputs: number = config.resources.maxOutputs) {
+    super();
+  }
+
+  // Periodically compares each document with its last snapshot to drive subscriptions
+  start(intervalMs: number = config.resources.pollInterval) {
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => logger.warn('Resource poll failed', { error }));
+    }, intervalMs);
+    this.pollTimer.unref();
+  }
+
+  stop() {
+    clearInterval(this.pollTimer);
+  }
+
+  recordOutput(requestId: string, tool: string, text: string, sessionId?: string) {
+    this.outputs.set(requestId, { requestId, tool, text, createdAt: Date.now(), sessionId });
+    while (this.outputs.size > this.maxOutputs) {
+      this.outputs.delete(this.outputs.keys().next().value!);
+    }
+    this.emit('listChanged', sessionId);
+  }
+
+  outputUri(requestId: string): string {
+    return `${OUTPUT_PREFIX}${requestId}`;
+  }
+
+  list(sessionId?: string): ResourceInfo[] {
+    const outputs = [...this.outputs.values()]
+      .filter(output => output.sessionId === sessionId)
+      .reverse()
+      .map(output => ({
+        uri: this.outputUri(output.requestId),
+        name: `${output.tool} output ${new Date(output.createdAt).toISOString()}`,
+        description: `Result of tool call ${output.requestId}`,
+        mimeType: 'text/plain'
+      }));
+    return [...STATIC_RESOURCES, ...outputs];
+  }
+
+  async read(uri: string, sessionId?: string): Promise<ResourceContents> {
+    if (uri.startsWith(OUTPUT_PREFIX)) {
+      const output = this.outputs.get(uri.slice(OUTPUT_PREFIX.length));
+      if (!output || output.sessionId !== sessionId) {
+        throw new ValidationError(`Unknown or expired tool output: ${uri}`, 'uri', uri);
+      }
+      return { uri, mimeType: 'text/plain', text: output.text };
+    }
+
+    const document = await this.document(uri, true);
+    return { uri, mimeType: 'application/json', text: JSON.stringify(document, null, 2) };
+  }
+
+  isKnown(uri: string): boolean {
+    return STATIC_RESOURCES.some(resource => resource.uri === uri) || this.outputs.has(uri.slice(OUTPUT_PREFIX.length));
+  }
+
+  // `fresh` queries the backend for models; polling uses the health check's list
+  private async document(uri: string, fresh: boolean): Promise<unknown> {
+    switch (uri) {
+      case MODELS_URI: {
+        const models = fresh
+          ? await this.client.listModels().catch(() => this.client.getAvailableModels())
+          : this.client.getAvailableModels();
+        return { configured: config.lmStudio.model, active: this.client.resolveModel(), models };
+      }
+      case METRICS_URI:
+        return this.client.getMetrics();
+      case HEALTH_URI: {
+        const { provider, baseUrl, isHealthy, lastHealthCheck } = this.client.getMetrics();
+        return { provider, baseUrl, isHealthy, lastHealthCheck: new Date(lastHealthCheck).toISOString() };
+      }
+      default:
+        throw new ValidationError(`Unknown resource: ${uri}`, 'uri', uri);
+    }
+  }
+
+  private async poll() {
+    for (const { uri } of STATIC_RESOURCES) {
+      const snapshot = JSON.stringify(await this.document(uri, false));
+      const previous = this.snapshots.get(uri);
+      this.snapshots.set(uri, snapshot);
+      if (previous !== undefined && previous !== snapshot) {
+        this.emit('updated', uri);
+      }
+    }
+  }
+}
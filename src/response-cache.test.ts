@@ -0,0 +1,40 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { FileResponseCache } from './response-cache.js';
+
+describe('FileResponseCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists entries across instances', async () => {
+    const first = new FileResponseCache(dir);
+    await first.set('summarize:abc', 'summary', { tool: 'summarize', model: 'm' });
+    await first.close();
+
+    const second = new FileResponseCache(dir);
+    expect(await second.get('summarize:abc')).toBe('summary');
+    expect(await second.entries()).toEqual([expect.objectContaining({ key: 'summarize:abc', tool: 'summarize', model: 'm' })]);
+    await second.close();
+  });
+
+  it('starts empty when the cache directory cannot be created', async () => {
+    // A regular file where the directory should be
+    const blocked = path.join(dir, 'not-a-directory');
+    fs.writeFileSync(blocked, '');
+
+    const cache = new FileResponseCache(path.join(blocked, 'cache'));
+    expect(await cache.get('summarize:abc')).toBeUndefined();
+    expect(await cache.entries()).toEqual([]);
+    await expect(cache.set('summarize:abc', 'summary', { tool: 'summarize', model: 'm' })).rejects.toThrow();
+    await cache.close();
+  });
+});
@@ -0,0 +1,309 @@
+import NodeCache from 'node-cache';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+export interface CacheEntryMeta {
+  tool: string;
+  model: string;
+}
+
+export interface CacheEntryInfo extends CacheEntryMeta {
+  key: string;
+  bytes: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Storage for completed responses, keyed by the cacheKey tools pass to
+ * LMStudioClient.complete(). Keys start with `<tool>:`, and each entry
+ * records the tool and model that produced it for per-tool TTLs and
+ * targeted invalidation.
+ */
+export interface ResponseCache {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, meta: CacheEntryMeta): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<CacheEntryInfo[]>;
+  size(): number;
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+function ttlForTool(tool: string): number {
+  return config.cache.toolTtls[tool] ?? config.cache.ttl;
+}
+
+interface MemoryEntry extends CacheEntryMeta {
+  value: string;
+  createdAt: number;
+}
+
+export class MemoryResponseCache implements ResponseCache {
+  private cache = new NodeCache({
+    stdTTL: config.cache.ttl,
+    checkperiod: config.cache.checkPeriod,
+    useClones: false
+  });
+
+  async get(key: string): Promise<string | undefined> {
+    return this.cache.get<MemoryEntry>(key)?.value;
+  }
+
+  async set(key: string, value: string, meta: CacheEntryMeta): Promise<void> {
+    const entry: MemoryEntry = { ...meta, value, createdAt: Date.now() };
+    this.cache.set(key, entry, ttlForTool(meta.tool));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.del(key);
+  }
+
+  async entries(): Promise<CacheEntryInfo[]> {
+    const result: CacheEntryInfo[] = [];
+    for (const key of this.cache.keys()) {
+      const entry = this.cache.get<MemoryEntry>(key);
+      if (!entry) continue;
+      result.push({
+        key,
+        tool: entry.tool,
+        model: entry.model,
+        bytes: Buffer.byteLength(entry.value),
+        createdAt: entry.createdAt,
+        expiresAt: this.cache.getTtl(key) || 0
+      });
+    }
+    return result;
+  }
+
+  size(): number {
+    return this.cache.keys().length;
+  }
+
+  async flush(): Promise<void> {
+    this.cache.flushAll();
+  }
+
+  async close(): Promise<void> {
+    this.cache.close();
+  }
+}
+
+interface FileEntry extends CacheEntryMeta {
+  key: string;
+  value: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+interface IndexEntry extends CacheEntryMeta {
+  file: string;
+  bytes: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Content-addressed file store: one JSON file per entry under
+ * `<dir>/<sha[0:2]>/<sha>.json`. An in-memory index kept in access order
+ * drives LRU eviction once maxEntries or maxSizeMb is exceeded.
+ */
+export class FileResponseCache implements ResponseCache {
+  // Map iteration order doubles as LRU order: oldest access first
+  private index = new Map<string, IndexEntry>();
+  private totalBytes = 0;
+  private ready: Promise<void>;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(private dir: string = config.cache.dir) {
+    // An unusable cache directory leaves the cache empty instead of failing startup
+    this.ready = this.load().catch(error => {
+      logger.error('Failed to load persistent response cache, starting empty', { dir: this.dir, error });
+      this.index.clear();
+      this.totalBytes = 0;
+    });
+    this.sweepTimer = setInterval(() => {
+      this.sweepExpired().catch(error => logger.warn('Cache sweep failed', { error }));
+    }, config.cache.checkPeriod * 1000);
+    this.sweepTimer.unref();
+  }
+
+  private fileFor(key: string): string {
+    const hash = crypto.createHash('sha256').update(key).digest('hex');
+    return path.join(this.dir, hash.slice(0, 2), `${hash}.json`);
+  }
+
+  private async load(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const loaded: Array<IndexEntry & { key: string; lastAccess: number }> = [];
+    for (const shard of await fs.readdir(this.dir)) {
+      const shardDir = path.join(this.dir, shard);
+      const files = await fs.readdir(shardDir).catch(() => [] as string[]);
+
+      for (const name of files) {
+        const file = path.join(shardDir, name);
+        try {
+          const [raw, stat] = await Promise.all([fs.readFile(file, 'utf-8'), fs.stat(file)]);
+          const entry = JSON.parse(raw) as FileEntry;
+          if (entry.expiresAt <= Date.now()) {
+            await fs.rm(file, { force: true });
+            continue;
+          }
+          loaded.push({
+            key: entry.key,
+            tool: entry.tool,
+            model: entry.model,
+            file,
+            bytes: stat.size,
+            createdAt: entry.createdAt,
+            expiresAt: entry.expiresAt,
+            lastAccess: stat.mtimeMs
+          });
+        } catch (error) {
+          logger.warn('Dropping unreadable cache entry', { file, error });
+          await fs.rm(file, { force: true });
+        }
+      }
+    }
+
+    loaded.sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const { key, lastAccess: _lastAccess, ...meta } of loaded) {
+      this.index.set(key, meta);
+      this.totalBytes += meta.bytes;
+    }
+
+    logger.info('Loaded persistent response cache', {
+      dir: this.dir,
+      entries: this.index.size,
+      bytes: this.totalBytes
+    });
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    await this.ready;
+    const meta = this.index.get(key);
+    if (!meta) return undefined;
+
+    if (meta.expiresAt <= Date.now()) {
+      await this.remove(key);
+      return undefined;
+    }
+
+    try {
+      const entry = JSON.parse(await fs.readFile(meta.file, 'utf-8')) as FileEntry;
+
+      // Move to the most-recently-used end and persist the access time
+      this.index.delete(key);
+      this.index.set(key, meta);
+      const now = new Date();
+      await fs.utimes(meta.file, now, now).catch(() => undefined);
+
+      return entry.value;
+    } catch (error) {
+      logger.warn('Failed to read cache entry', { key, error });
+      await this.remove(key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: string, meta: CacheEntryMeta): Promise<void> {
+    await this.ready;
+    const file = this.fileFor(key);
+    const now = Date.now();
+    const entry: FileEntry = {
+      ...meta,
+      key,
+      value,
+      createdAt: now,
+      expiresAt: now + ttlForTool(meta.tool) * 1000
+    };
+    const data = JSON.stringify(entry);
+
+    // Write to a temp file first so readers never see a partial entry
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmpFile, data, 'utf-8');
+    await fs.rename(tmpFile, file);
+
+    const previous = this.index.get(key);
+    if (previous) {
+      this.totalBytes -= previous.bytes;
+      this.index.delete(key);
+    }
+    const bytes = Buffer.byteLength(data);
+    this.index.set(key, {
+      ...meta,
+      file,
+      bytes,
+      createdAt: entry.createdAt,
+      expiresAt: entry.expiresAt
+    });
+    this.totalBytes += bytes;
+
+    await this.evict();
+  }
+
+  private async evict(): Promise<void> {
+    const maxBytes = config.cache.maxSizeMb * 1024 * 1024;
+
+    while (this.index.size > config.cache.maxEntries || this.totalBytes > maxBytes) {
+      const oldest = this.index.keys().next().value;
+      if (oldest === undefined) break;
+      logger.debug('Evicting least recently used cache entry', { key: oldest });
+      await this.remove(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ready;
+    await this.remove(key);
+  }
+
+  async entries(): Promise<CacheEntryInfo[]> {
+    await this.ready;
+    return [...this.index].map(([key, { file: _file, ...meta }]) => ({ key, ...meta }));
+  }
+
+  private async remove(key: string): Promise<void> {
+    const meta = this.index.get(key);
+    if (!meta) return;
+    this.index.delete(key);
+    this.totalBytes -= meta.bytes;
+    await fs.rm(meta.file, { force: true });
+  }
+
+  private async sweepExpired(): Promise<void> {
+    await this.ready;
+    const now = Date.now();
+    for (const [key, meta] of [...this.index]) {
+      if (meta.expiresAt <= now) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  size(): number {
+    return this.index.size;
+  }
+
+  async flush(): Promise<void> {
+    await this.ready;
+    for (const key of [...this.index.keys()]) {
+      await this.remove(key);
+    }
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+  }
+}
+
+export function createResponseCache(): ResponseCache {
+  return config.cache.backend === 'file'
+    ? new FileResponseCache()
+    : new MemoryResponseCache();
+}
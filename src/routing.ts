@@ -0,0 +1,86 @@
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { modelRoutes } from './metrics.js';
+import { estimateTokens } from './chunking.js';
+import type { LMStudioClient } from './lm-studio-client.js';
+
+export type RouteRule = 'argument' | 'size' | 'tool' | 'default';
+
+export interface RouteDecision {
+  // Unset for the default rule: the client's default model serves the call
+  model?: string;
+  rule: RouteRule;
+  // True when earlier candidates of the matching rule were not loaded
+  fallback: boolean;
+  inputTokens: number;
+}
+
+// Inline text the model will read, including message arrays; files
+// referenced by path are not counted
+function inputTokensOf(value: unknown): number {
+  if (typeof value === 'string') {
+    return estimateTokens(value);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce((sum: number, item) => sum + inputTokensOf(item), 0);
+  }
+  return 0;
+}
+
+// First loaded candidate of the size rule, then of the tool's route
+function chooseConfigured(tool: string, inputTokens: number, client: LMStudioClient): Omit<RouteDecision, 'inputTokens'> {
+  const known = client.getAvailableModels();
+  const loaded = new Set(known.filter(model => model.loaded !== false).map(model => model.id));
+  // Before the first model list arrives, withModel() checks the candidate instead
+  const isUsable = (candidate: string) => known.length === 0 || loaded.has(candidate);
+  const sizeRoute = config.routing.bySize
+    .filter(route => inputTokens >= route.minTokens)
+    .sort((a, b) => b.minTokens - a.minTokens)[0];
+  const rules: Array<[RouteRule, string[] | undefined]> = [
+    ['size', sizeRoute?.models],
+    ['tool', config.routing.tools[tool]]
+  ];
+
+  let fallback = false;
+  for (const [rule, candidates] of rules) {
+    if (!candidates) continue;
+    const model = candidates.find(isUsable);
+    if (model) {
+      return { model, rule, fallback: fallback || model !== candidates[0] };
+    }
+    logger.warn('No model of the route is loaded, falling back', { tool, rule, candidates });
+    fallback = true;
+  }
+  return { rule: 'default', fallback };
+}
+
+/**
+ * Choose the model for a tool call. An explicit `model` argument wins; then
+ * the largest size threshold the input reaches, then the tool's route. Each
+ * rule lists candidates in order and the first loaded one is used; when none
+ * is loaded the next rule applies, ending with the default model.
+ */
+export function routeModel(
+  tool: string,
+  args: Record<string, unknown>,
+  client: LMStudioClient,
+  requested?: string
+): RouteDecision {
+  const inputTokens = inputTokensOf(args);
+  const decision: RouteDecision = requested
+    ? { model: requested, rule: 'argument', fallback: false, inputTokens }
+    : { ...chooseConfigured(tool, inputTokens, client), inputTokens };
+
+  const model = decision.model ?? client.resolveModel();
+  logger.info('Model routed', { tool, model, rule: decision.rule, fallback: decision.fallback, inputTokens });
+  modelRoutes.inc({ tool, model, rule: decision.rule, fallback: String(decision.fallback) });
+  return decision;
+}
+
+// Routes for tools that do not exist are almost always typos
+export function checkRoutes(toolNames: string[]) {
+  const unknown = Object.keys(config.routing.tools).filter(tool => !toolNames.includes(tool));
+  if (unknown.length > 0) {
+    logger.warn('MODEL_ROUTES names unknown tools', { tools: unknown, known: toolNames });
+  }
+}
@@ -0,0 +1,29 @@
+import type { SamplingParams } from './providers.js';
+
+export const SAMPLING_PRESET_NAMES = ['deterministic', 'precise', 'balanced', 'creative'] as const;
+
+export type SamplingPresetName = typeof SAMPLING_PRESET_NAMES[number];
+
+export interface SamplingSettings extends SamplingParams {
+  temperature?: number;
+}
+
+// Starting points for ask_local_model; explicit arguments override single values
+export const samplingPresets: Record<SamplingPresetName, SamplingSettings> = {
+  // Greedy decoding with a fixed seed, so repeated calls give the same answer
+  deterministic: { temperature: 0, topK: 1, topP: 1, seed: 42 },
+  precise: { temperature: 0.2, topP: 0.9, topK: 40, repeatPenalty: 1.05 },
+  balanced: { temperature: 0.7, topP: 0.95, topK: 40, repeatPenalty: 1.1 },
+  creative: { temperature: 1.0, topP: 0.98, topK: 100, repeatPenalty: 1.15 }
+};
+
+// The preset's settings with every explicitly given value taking precedence
+export function resolveSampling(preset: SamplingPresetName | undefined, explicit: SamplingSettings): SamplingSettings {
+  const settings: SamplingSettings = { ...(preset && samplingPresets[preset]) };
+  for (const [key, value] of Object.entries(explicit) as Array<[keyof SamplingSettings, any]>) {
+    if (value !== undefined) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { FileSandbox } from './sandbox.js';
+import { config } from './config.js';
+
+describe('FileSandbox', () => {
+  let dir: string;
+  let root: string;
+  let outside: string;
+  let sandbox: FileSandbox;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-'));
+    root = path.join(dir, 'root');
+    outside = path.join(dir, 'outside');
+    fs.mkdirSync(root);
+    fs.mkdirSync(outside);
+    fs.writeFileSync(path.join(root, 'notes.md'), '# Notes');
+    fs.writeFileSync(path.join(outside, 'secret.md'), '# Secret');
+    sandbox = new FileSandbox([root]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads files inside an allowed root', async () => {
+    expect(await sandbox.readFile(path.join(root, 'notes.md'))).toBe('# Notes');
+  });
+
+  it('rejects paths outside the roots, including via ..', async () => {
+    await expect(sandbox.readFile(path.join(outside, 'secret.md'))).rejects.toThrow('allowed-roots policy');
+    await expect(sandbox.readFile(path.join(root, '..', 'outside', 'secret.md'))).rejects.toThrow('allowed-roots policy');
+    // A sibling whose name starts with the root's name is not inside it
+    fs.mkdirSync(`${root}-other`);
+    fs.writeFileSync(path.join(`${root}-other`, 'a.md'), '');
+    await expect(sandbox.readFile(path.join(`${root}-other`, 'a.md'))).rejects.toThrow('allowed-roots policy');
+  });
+
+  it('rejects symlinks that resolve outside the roots', async () => {
+    fs.symlinkSync(path.join(outside, 'secret.md'), path.join(root, 'link.md'));
+    fs.symlinkSync(outside, path.join(root, 'linked-dir'));
+
+    await expect(sandbox.readFile(path.join(root, 'link.md'))).rejects.toThrow('symlink policy');
+    await expect(sandbox.readFile(path.join(root, 'linked-dir', 'secret.md'))).rejects.toThrow('symlink policy');
+    await expect(sandbox.resolveForWrite(path.join(root, 'linked-dir', 'new.md'))).rejects.toThrow('symlink policy');
+  });
+
+  it('rejects disallowed extensions and files over the size limit', async () => {
+    fs.writeFileSync(path.join(root, 'script.sh'), 'echo hi');
+    await expect(sandbox.readFile(path.join(root, 'script.sh'))).rejects.toThrow('allowed-extensions policy');
+
+    fs.writeFileSync(path.join(root, 'big.md'), 'x'.repeat(config.sandbox.maxFileSizeKb * 1024 + 1));
+    await expect(sandbox.readFile(path.join(root, 'big.md'))).rejects.toThrow('max-file-size policy');
+  });
+
+  it('resolves write targets that do not exist yet through their parent', async () => {
+    const target = path.join(root, 'new.md');
+    expect(await sandbox.resolveForWrite(target)).toBe(path.join(fs.realpathSync(root), 'new.md'));
+    await expect(sandbox.resolveForWrite(path.join(root, 'missing', 'new.md'))).rejects.toThrow('Failed to read file');
+  });
+
+  it('admits the roots reported by the client', async () => {
+    const secret = path.join(outside, 'secret.md');
+    await expect(sandbox.readFile(secret)).rejects.toThrow();
+
+    sandbox.setClientRoots([pathToFileURL(outside).href, 'https://example.com/ignored']);
+    expect(await sandbox.readFile(secret)).toBe('# Secret');
+    expect(sandbox.roots).toEqual([root, outside]);
+  });
+});
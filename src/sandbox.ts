@@ -0,0 +1,136 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { ValidationError } from './validation.js';
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Restricts filePath arguments and write targets to an allow-list of root directories:
+ * the configured roots plus any roots the MCP client reports via roots/list.
+ * Paths are checked before and after resolving symlinks, and files must
+ * have an allowed extension and stay under the size limit.
+ */
+export class FileSandbox {
+  private clientRoots: string[] = [];
+
+  constructor(private configuredRoots: string[] = config.sandbox.allowedRoots) {}
+
+  get roots(): string[] {
+    return [...this.configuredRoots, ...this.clientRoots].map(root => path.resolve(root));
+  }
+
+  // Accepts file:// URIs as sent by MCP clients
+  setClientRoots(uris: string[]) {
+    this.clientRoots = uris
+      .filter(uri => uri.startsWith('file://'))
+      .map(uri => fileURLToPath(uri));
+    logger.info('Updated client filesystem roots', { roots: this.clientRoots });
+  }
+
+  /**
+   * Resolve a path and check it against every policy.
+   * Returns the real (symlink-free) path.
+   */
+  async resolve(filePath: string): Promise<string> {
+    const requested = path.resolve(filePath);
+    this.checkRoots(requested, filePath);
+    this.checkExtension(requested, filePath);
+    return this.realPathWithinRoots(requested, filePath);
+  }
+
+  /**
+   * Resolve a path that is about to be written. The file may not exist yet,
+   * in which case its parent directory must.
+   */
+  async resolveForWrite(filePath: string, field = 'output'): Promise<string> {
+    const requested = path.resolve(filePath);
+    this.checkRoots(requested, filePath, field);
+    this.checkExtension(requested, filePath, field);
+
+    const stat = await fs.lstat(requested).catch(() => undefined);
+    if (!stat) {
+      const parent = await this.realPathWithinRoots(path.dirname(requested), filePath, field);
+      return path.join(parent, path.basename(requested));
+    }
+
+    const realPath = await this.realPathWithinRoots(requested, filePath, field);
+    if (!(await fs.stat(realPath)).isFile()) {
+      throw new ValidationError(`Cannot write ${filePath}: not a regular file`, field, filePath);
+    }
+    return realPath;
+  }
+
+  // Directories are checked against the root and symlink policies only
+  async resolveDirectory(dirPath: string): Promise<string> {
+    const requested = path.resolve(dirPath);
+    this.checkRoots(requested, dirPath);
+    return this.realPathWithinRoots(requested, dirPath);
+  }
+
+  private checkRoots(requested: string, filePath: string, field = 'filePath') {
+    const roots = this.roots;
+    if (!roots.some(root => isWithin(root, requested))) {
+      throw new ValidationError(
+        `Access denied by allowed-roots policy: ${filePath} is outside ${roots.join(', ')}`,
+        field,
+        filePath
+      );
+    }
+  }
+
+  private checkExtension(requested: string, filePath: string, field = 'filePath') {
+    const extension = path.extname(requested).toLowerCase();
+    if (!config.sandbox.allowedExtensions.includes(extension)) {
+      throw new ValidationError(
+        `Access denied by allowed-extensions policy: '${extension || '(none)'}' is not one of ${config.sandbox.allowedExtensions.join(', ')}`,
+        field,
+        filePath
+      );
+    }
+  }
+
+  private async realPathWithinRoots(requested: string, filePath: string, field = 'filePath'): Promise<string> {
+    let realPath: string;
+    try {
+      realPath = await fs.realpath(requested);
+    } catch (error) {
+      throw new ValidationError(`Failed to read file: ${filePath} - ${error}`, field, filePath);
+    }
+
+    const realRoots = await Promise.all(this.roots.map(root => fs.realpath(root).catch(() => root)));
+    if (!realRoots.some(root => isWithin(root, realPath))) {
+      throw new ValidationError(
+        `Access denied by symlink policy: ${filePath} resolves to ${realPath}, outside the allowed roots`,
+        field,
+        filePath
+      );
+    }
+
+    return realPath;
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const realPath = await this.resolve(filePath);
+
+    const stat = await fs.stat(realPath);
+    if (!stat.isFile()) {
+      throw new ValidationError(`Failed to read file: ${filePath} is not a regular file`, 'filePath', filePath);
+    }
+    const maxBytes = config.sandbox.maxFileSizeKb * 1024;
+    if (stat.size > maxBytes) {
+      throw new ValidationError(
+        `Access denied by max-file-size policy: ${filePath} is ${stat.size} bytes, limit is ${maxBytes}`,
+        'filePath',
+        filePath
+      );
+    }
+
+    return fs.readFile(realPath, 'utf-8');
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { toSarif } from './sarif.js';
+import type { CodeFinding } from './validation.js';
+
+const lines = [
+  'const query = `SELECT * FROM users WHERE id = ${id}`;',
+  'db.run(query);',
+  'const items = list.map((item) => item.id);'
+];
+
+const findings: CodeFinding[] = [
+  {
+    ruleId: 'sql-injection',
+    category: 'security',
+    severity: 'high',
+    message: 'Query built from user input',
+    startLine: 1,
+    endLine: 2,
+    startColumn: 15,
+    suggestedFix: 'Use a parameterized query'
+  },
+  {
+    ruleId: 'unused-variable',
+    category: 'style',
+    severity: 'low',
+    message: 'items is never used',
+    startLine: 3,
+    startColumn: 7,
+    endColumn: 12
+  },
+  {
+    ruleId: 'sql-injection',
+    category: 'security',
+    severity: 'medium',
+    message: 'Query executed without validation',
+    startLine: 2
+  }
+];
+
+describe('toSarif', () => {
+  const log = toSarif(findings, { toolName: 'analyze_code', toolVersion: '1.0.0', uri: 'src/users.ts', lines, model: 'qwen' });
+  const run = log.runs[0]!;
+
+  it('produces a SARIF 2.1.0 log with one run', () => {
+    expect(log.version).toBe('2.1.0');
+    expect(log.$schema).toContain('sarif-2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(run.tool.driver).toMatchObject({ name: 'analyze_code', version: '1.0.0' });
+    expect(run.properties).toEqual({ model: 'qwen' });
+  });
+
+  it('lists each rule once, in order of first appearance', () => {
+    expect(run.tool.driver.rules).toEqual([
+      { id: 'sql-injection', defaultConfiguration: { level: 'error' }, properties: { category: 'security' } },
+      { id: 'unused-variable', defaultConfiguration: { level: 'note' }, properties: { category: 'style' } }
+    ]);
+    expect(run.results.map(result => result.ruleIndex)).toEqual([0, 1, 0]);
+  });
+
+  it('maps severities to levels', () => {
+    expect(run.results.map(result => result.level)).toEqual(['error', 'note', 'warning']);
+  });
+
+  it('reports regions with snippets of the analyzed code', () => {
+    const [multiLine, columns, singleLine] = run.results.map(result => result.locations[0]!.physicalLocation);
+    expect(multiLine!.artifactLocation.uri).toBe('src/users.ts');
+    expect(multiLine!.region).toEqual({
+      startLine: 1,
+      endLine: 2,
+      startColumn: 15,
+      snippet: { text: `${lines[0]}\n${lines[1]}` }
+    });
+    expect(columns!.region).toMatchObject({ startLine: 3, endLine: 3, startColumn: 7, endColumn: 12 });
+    expect(columns!.region.snippet.text).toBe(lines[2]);
+    expect(singleLine!.region).toEqual({ startLine: 2, endLine: 2, snippet: { text: lines[1] } });
+  });
+
+  it('keeps suggested fixes in the result properties', () => {
+    expect(run.results[0]!.properties).toEqual({ category: 'security', severity: 'high', suggestedFix: 'Use a parameterized query' });
+    expect(run.results[1]!.properties).toEqual({ category: 'style', severity: 'low' });
+  });
+
+  it('leaves out run properties without a model', () => {
+    const plain = toSarif([], { toolName: 'analyze_code', toolVersion: '1.0.0', uri: 'input', lines: [] });
+    expect(plain.runs[0]).not.toHaveProperty('properties');
+    expect(plain.runs[0]!.results).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { CodeFinding } from './validation.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const levels: Record<CodeFinding['severity'], 'error' | 'warning' | 'note'> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'note'
+};
+
+export interface SarifOptions {
+  toolName: string;
+  toolVersion: string;
+  // Artifact the findings refer to
+  uri: string;
+  // Lines of the analyzed code, for region snippets
+  lines: string[];
+  // Recorded in the run's properties
+  model?: string;
+}
+
+/**
+ * A SARIF 2.1.0 log with one run. Rules are the distinct rule ids in order of
+ * first appearance, and each result carries its region's code as a snippet.
+ * SARIF fixes need exact replacements, so suggested fixes go in the result's
+ * properties instead.
+ */
+export function toSarif(findings: CodeFinding[], options: SarifOptions) {
+  const ruleIds = [...new Set(findings.map(finding => finding.ruleId))];
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: options.toolName,
+          version: options.toolVersion,
+          rules: ruleIds.map(id => {
+            const first = findings.find(finding => finding.ruleId === id)!;
+            return { id, defaultConfiguration: { level: levels[first.severity] }, properties: { category: first.category } };
+          })
+        }
+      },
+      ...(options.model && { properties: { model: options.model } }),
+      results: findings.map(finding => {
+        const endLine = finding.endLine ?? finding.startLine;
+        return {
+          ruleId: finding.ruleId,
+          ruleIndex: ruleIds.indexOf(finding.ruleId),
+          level: levels[finding.severity],
+          message: { text: finding.message },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri: options.uri },
+              region: {
+                startLine: finding.startLine,
+                endLine,
+                ...(finding.startColumn && { startColumn: finding.startColumn }),
+                ...(finding.endColumn && { endColumn: finding.endColumn }),
+                snippet: { text: options.lines.slice(finding.startLine - 1, endLine).join('\n') }
+              }
+            }
+          }],
+          properties: {
+            category: finding.category,
+            severity: finding.severity,
+            ...(finding.suggestedFix && { suggestedFix: finding.suggestedFix })
+          }
+        };
+      })
+    }]
+  };
+}
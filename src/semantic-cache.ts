@@ -0,0 +1,91 @@
+import { config } from './config.js';
+import { normalize, dot } from './semantic-index.js';
+
+// Long prompts are embedded as up to MAX_WINDOWS windows and mean-pooled, so
+// an edit anywhere in the prompt moves the vector, not only in its first part
+const WINDOW_CHARS = 2000;
+const MAX_WINDOWS = 8;
+
+interface SemanticEntry {
+  // Tool plus model and sampling parameters; only prompts in the same scope match
+  scope: string;
+  // Response cache key holding the answer
+  key: string;
+  vector: Float32Array;
+}
+
+export interface SemanticMatch {
+  key: string;
+  similarity: number;
+}
+
+// Splits a prompt into evenly spaced windows to embed in one request
+export function embeddingWindows(prompt: string): string[] {
+  if (prompt.length <= WINDOW_CHARS) {
+    return [prompt];
+  }
+  const count = Math.min(Math.ceil(prompt.length / WINDOW_CHARS), MAX_WINDOWS);
+  const stride = (prompt.length - WINDOW_CHARS) / (count - 1);
+  return Array.from({ length: count }, (_, i) => {
+    const start = Math.round(i * stride);
+    return prompt.slice(start, start + WINDOW_CHARS);
+  });
+}
+
+// Mean of the window vectors, normalized
+export function poolEmbeddings(embeddings: number[][]): Float32Array {
+  const dimensions = embeddings[0]?.length ?? 0;
+  const sum = new Array<number>(dimensions).fill(0);
+  for (const embedding of embeddings) {
+    const unit = normalize(embedding);
+    for (let i = 0; i < dimensions; i++) {
+      sum[i]! += unit[i] ?? 0;
+    }
+  }
+  return normalize(sum);
+}
+
+/**
+ * Prompt embeddings of cached responses, for answering a prompt with the
+ * response to a sufficiently similar earlier one. Values stay in the response
+ * cache; an entry whose response has expired or been invalidated is dropped
+ * when it next matches.
+ */
+export class SemanticCache {
+  // Oldest first, so the first entry is evicted first
+  private entries: SemanticEntry[] = [];
+
+  constructor(private maxEntries: number = config.semanticCache.maxEntries) {}
+
+  thresholdFor(tool: string): number {
+    return config.semanticCache.toolThresholds[tool] ?? config.semanticCache.threshold;
+  }
+
+  find(scope: string, vector: Float32Array, threshold: number): SemanticMatch | undefined {
+    let best: SemanticMatch | undefined;
+    for (const entry of this.entries) {
+      if (entry.scope !== scope) continue;
+      const similarity = dot(vector, entry.vector);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { key: entry.key, similarity };
+      }
+    }
+    return best;
+  }
+
+  add(scope: string, key: string, vector: Float32Array) {
+    this.remove(key);
+    this.entries.push({ scope, key, vector });
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  remove(key: string) {
+    this.entries = this.entries.filter(entry => entry.key !== key);
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+}
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { LMStudioClient } from './lm-studio-client.js';
+import { SemanticIndex } from './semantic-index.js';
+import { config } from './config.js';
+import { ValidationError } from './validation.js';
+import { StubProvider } from './testing/stub-provider.js';
+
+describe('SemanticIndex', () => {
+  let dir: string;
+  let root: string;
+  let provider: StubProvider;
+  let client: LMStudioClient;
+  let index: SemanticIndex;
+
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(root, file), content);
+
+  beforeEach(async () => {
+    // Roots reach the index as real paths, already resolved by the sandbox
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-index-')));
+    root = path.join(dir, 'root');
+    fs.mkdirSync(root);
+    index = new SemanticIndex(path.join(dir, 'index'));
+    provider = new StubProvider({ capabilities: { streaming: false, jsonSchema: false } });
+    client = new LMStudioClient(provider);
+    await client.checkHealth();
+  });
+
+  afterEach(async () => {
+    await client.shutdown();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('indexes files and ranks chunks by similarity to the query', async () => {
+    write('fruit.md', 'apple apple apple');
+    write('other.md', 'banana bread');
+    write('empty.md', '   ');
+    write('image.png', 'apple');
+
+    const stats = await index.update(client, root);
+    expect(stats).toMatchObject({ files: 3, chunks: 2, added: 3, updated: 0, removed: 0 });
+
+    const hits = await index.search(client, [root], 'apple', 5);
+    expect(hits.map(hit => hit.file)).toEqual([path.join(root, 'fruit.md'), path.join(root, 'other.md')]);
+    expect(hits[0]).toMatchObject({ startLine: 1, endLine: 1, snippet: 'apple apple apple' });
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+
+  it('embeds changed files only and persists the index', async () => {
+    write('a.md', 'apple');
+    write('b.md', 'banana');
+    write('c.md', 'cherry');
+    await index.update(client, root);
+    provider.batches = [];
+
+    write('b.md', 'banana cherry');
+    fs.rmSync(path.join(root, 'c.md'));
+    const stats = await index.update(client, root);
+
+    expect(stats).toMatchObject({ files: 2, added: 0, updated: 1, removed: 1 });
+    expect(provider.batches).toEqual([1]);
+
+    // A fresh instance reads the saved index instead of embedding again
+    const reloaded = new SemanticIndex(path.join(dir, 'index'));
+    const hits = await reloaded.search(client, [root], 'cherry', 1);
+    expect(hits[0]!.file).toBe(path.join(root, 'b.md'));
+  });
+
+  it('rebuilds the index when the embedding model changes', async () => {
+    write('a.md', 'apple');
+    await index.update(client, root);
+
+    provider.models = [{ id: 'embed-b', type: 'embedding' }];
+    await client.listModels();
+    await expect(index.search(client, [root], 'apple', 1)).rejects.toThrow(ValidationError);
+
+    const stats = await index.update(client, root);
+    expect(stats).toMatchObject({ files: 1, added: 1 });
+    expect(await index.search(client, [root], 'apple', 1)).toHaveLength(1);
+  });
+
+  it('embeds small files in shared batches and waits out the rate limit', async () => {
+    for (let i = 0; i < 70; i++) {
+      write(`file-${String(i).padStart(2, '0')}.md`, `apple ${i}`);
+    }
+
+    // Fill the rate limit window with requests that leave it shortly
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now - 59_700);
+    for (let i = 1; i < config.rateLimit.maxRequestsPerMinute; i++) {
+      await client.embed(['warm-up']);
+    }
+    clock.mockRestore();
+    provider.batches = [];
+
+    const started = Date.now();
+    const stats = await index.update(client, root);
+
+    expect(stats).toMatchObject({ files: 70, chunks: 70, added: 70 });
+    const { batchSize } = config.embeddings;
+    expect(provider.batches).toEqual(Array.from(
+      { length: Math.ceil(70 / batchSize) },
+      (_, i) => Math.min(batchSize, 70 - i * batchSize)
+    ));
+    expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+  });
+});
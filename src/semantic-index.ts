@@ -0,0 +1,333 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { walk } from './batch.js';
+import { ValidationError } from './validation.js';
+import type { LMStudioClient, ProgressReporter } from './lm-studio-client.js';
+
+const INDEX_VERSION = 1;
+// Keeps chunks of very long lines (minified code, data) within embedding model limits
+const MAX_EMBED_CHARS = 4000;
+
+interface Chunk {
+  startLine: number;
+  endLine: number;
+  text: string;
+  // Unit length, so cosine similarity is a dot product
+  vector: Float32Array;
+}
+
+interface IndexedFile {
+  hash: string;
+  chunks: Chunk[];
+}
+
+// A changed file whose chunks are waiting to be embedded
+interface PendingFile {
+  file: string;
+  hash: string;
+  isUpdate: boolean;
+  chunks: Array<Omit<Chunk, 'vector'>>;
+  vectors: Float32Array[];
+}
+
+// One index per root directory; files are keyed by path relative to the root
+interface RootIndex {
+  root: string;
+  model: string;
+  files: Map<string, IndexedFile>;
+}
+
+// On-disk form: vectors are base64-encoded Float32Arrays
+interface StoredIndex {
+  version: number;
+  root: string;
+  model: string;
+  files: Record<string, {
+    hash: string;
+    chunks: Array<{ startLine: number; endLine: number; text: string; vector: string }>;
+  }>;
+}
+
+export interface IndexStats {
+  root: string;
+  files: number;
+  chunks: number;
+  added: number;
+  updated: number;
+  removed: number;
+  skipped: number;
+}
+
+export interface SearchHit {
+  file: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+  snippet: string;
+}
+
+export function normalize(vector: number[]): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return Float32Array.from(vector, value => value / norm);
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i]! * b[i]!;
+  }
+  return sum;
+}
+
+// Overlapping windows of lines; whitespace-only windows are dropped
+function chunkLines(content: string): Array<Omit<Chunk, 'vector'>> {
+  const lines = content.split(/\r?\n/);
+  const size = config.search.chunkLines;
+  const step = Math.max(size - config.search.chunkOverlap, 1);
+  const chunks: Array<Omit<Chunk, 'vector'>> = [];
+
+  for (let start = 0; start < lines.length; start += step) {
+    const text = lines.slice(start, start + size).join('\n');
+    if (text.trim()) {
+      chunks.push({ startLine: start + 1, endLine: Math.min(start + size, lines.length), text });
+    }
+    if (start + size >= lines.length) break;
+  }
+  return chunks;
+}
+
+/**
+ * Embedding index of the files under one or more root directories, persisted
+ * under SEARCH_INDEX_DIR. update() re-embeds only files whose content hash
+ * changed, and search() ranks chunks by cosine similarity to the query.
+ * Switching the embedding model rebuilds a root's index from scratch.
+ */
+export class SemanticIndex {
+  private indexes = new Map<string, RootIndex>();
+  // Serializes updates per root so concurrent calls don't embed the same files twice
+  private updates = new Map<string, Promise<unknown>>();
+
+  constructor(private dir: string = config.search.indexDir) {}
+
+  private fileFor(root: string): string {
+    const hash = crypto.createHash('sha256').update(root).digest('hex');
+    return path.join(this.dir, `${hash.slice(0, 16)}.json`);
+  }
+
+  private async load(root: string): Promise<RootIndex | undefined> {
+    const cached = this.indexes.get(root);
+    if (cached) return cached;
+
+    let stored: StoredIndex;
+    try {
+      stored = JSON.parse(await fs.readFile(this.fileFor(root), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Discarding unreadable search index', { root, error });
+      }
+      return undefined;
+    }
+    if (stored.version !== INDEX_VERSION || stored.root !== root) {
+      return undefined;
+    }
+
+    const index: RootIndex = { root, model: stored.model, files: new Map() };
+    for (const [file, entry] of Object.entries(stored.files)) {
+      index.files.set(file, {
+        hash: entry.hash,
+        chunks: entry.chunks.map(chunk => {
+          // Copied out of Buffer's shared pool, whose offsets may not be 4-byte aligned
+          const bytes = new Uint8Array(Buffer.from(chunk.vector, 'base64'));
+          return { ...chunk, vector: new Float32Array(bytes.buffer) };
+        })
+      });
+    }
+    this.indexes.set(root, index);
+    return index;
+  }
+
+  private async save(index: RootIndex): Promise<void> {
+    const stored: StoredIndex = { version: INDEX_VERSION, root: index.root, model: index.model, files: {} };
+    for (const [file, entry] of index.files) {
+      stored.files[file] = {
+        hash: entry.hash,
+        chunks: entry.chunks.map(chunk => ({
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          text: chunk.text,
+          vector: Buffer.from(chunk.vector.buffer, chunk.vector.byteOffset, chunk.vector.byteLength).toString('base64')
+        }))
+      };
+    }
+
+    // Write to a temp file first so a crash never leaves a truncated index
+    const file = this.fileFor(index.root);
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(stored), 'utf-8');
+    await fs.rename(tmpFile, file);
+  }
+
+  /**
+   * Bring the index of `root` (an already sandbox-checked real path) up to
+   * date. Progress is saved even if embedding fails part way, so the next
+   * update resumes where this one stopped.
+   */
+  async update(
+    client: LMStudioClient,
+    root: string,
+    options: { signal?: AbortSignal; onProgress?: ProgressReporter } = {}
+  ): Promise<IndexStats> {
+    const previous = this.updates.get(root) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.runUpdate(client, root, options));
+    this.updates.set(root, run);
+    try {
+      return await run;
+    } finally {
+      if (this.updates.get(root) === run) this.updates.delete(root);
+    }
+  }
+
+  private async runUpdate(
+    client: LMStudioClient,
+    root: string,
+    options: { signal?: AbortSignal; onProgress?: ProgressReporter }
+  ): Promise<IndexStats> {
+    const model = client.resolveEmbeddingModel();
+    let index = await this.load(root);
+    if (!index || index.model !== model) {
+      if (index) logger.info('Embedding model changed, rebuilding search index', { root, from: index.model, to: model });
+      index = { root, model, files: new Map() };
+      this.indexes.set(root, index);
+    }
+
+    const found: string[] = [];
+    await walk(root, found, config.search.maxFiles);
+    const files = found
+      .filter(file => config.search.extensions.includes(path.extname(file).toLowerCase()))
+      .map(file => path.relative(root, file))
+      .sort();
+
+    const stats: IndexStats = { root, files: 0, chunks: 0, added: 0, updated: 0, removed: 0, skipped: 0 };
+    let changed = false;
+
+    const seen = new Set(files);
+    for (const file of [...index.files.keys()]) {
+      if (!seen.has(file)) {
+        index.files.delete(file);
+        stats.removed++;
+        changed = true;
+      }
+    }
+
+    const maxBytes = config.sandbox.maxFileSizeKb * 1024;
+    // Chunks of changed files are embedded in full batches across files, so a
+    // directory of small files doesn't cost one request per file
+    const queue: Array<{ pending: PendingFile; text: string }> = [];
+    const indexed = index.files;
+    const commit = (pending: PendingFile) => {
+      indexed.set(pending.file, {
+        hash: pending.hash,
+        chunks: pending.chunks.map((chunk, i) => ({ ...chunk, vector: pending.vectors[i]! }))
+      });
+      stats[pending.isUpdate ? 'updated' : 'added']++;
+      changed = true;
+    };
+    const embedQueued = async (flush: boolean) => {
+      while (queue.length >= config.embeddings.batchSize || (flush && queue.length > 0)) {
+        const batch = queue.splice(0, config.embeddings.batchSize);
+        const { embeddings } = await client.embed(batch.map(item => item.text), {
+          signal: options.signal,
+          waitForRateLimit: true
+        });
+        batch.forEach((item, i) => item.pending.vectors.push(normalize(embeddings[i]!)));
+        // A file enters the index once all its chunks have vectors
+        for (const pending of new Set(batch.map(item => item.pending))) {
+          if (pending.vectors.length === pending.chunks.length) commit(pending);
+        }
+      }
+    };
+
+    try {
+      for (const [position, file] of files.entries()) {
+        options.onProgress?.(position, files.length, `Indexing ${file}`);
+
+        const fullPath = path.join(root, file);
+        const stat = await fs.stat(fullPath);
+        if (stat.size > maxBytes) {
+          stats.skipped++;
+          continue;
+        }
+        const content = await fs.readFile(fullPath, 'utf-8');
+        const hash = crypto.createHash('sha256').update(content).digest('hex');
+        const existing = index.files.get(file);
+        if (existing?.hash === hash) continue;
+
+        const pending: PendingFile = { file, hash, isUpdate: existing !== undefined, chunks: chunkLines(content), vectors: [] };
+        if (pending.chunks.length === 0) {
+          commit(pending);
+          continue;
+        }
+        // The path gives each chunk context the text alone may lack
+        queue.push(...pending.chunks.map(chunk => ({ pending, text: `${file}\n${chunk.text}`.slice(0, MAX_EMBED_CHARS) })));
+        await embedQueued(false);
+      }
+      await embedQueued(true);
+    } finally {
+      if (changed) {
+        await this.save(index);
+      }
+    }
+
+    stats.files = index.files.size;
+    stats.chunks = [...index.files.values()].reduce((sum, entry) => sum + entry.chunks.length, 0);
+    options.onProgress?.(files.length, files.length, 'Index up to date');
+    logger.info('Search index updated', { ...stats, model });
+    return stats;
+  }
+
+  // Best-matching chunks across `roots`, which must have been indexed
+  async search(client: LMStudioClient, roots: string[], query: string, topK: number, minScore = -1, signal?: AbortSignal): Promise<SearchHit[]> {
+    const indexes: RootIndex[] = [];
+    for (const root of roots) {
+      const index = await this.load(root);
+      if (!index) {
+        throw new ValidationError(`${root} has not been indexed yet; search with reindex enabled first`, 'paths', root);
+      }
+      indexes.push(index);
+    }
+
+    const model = client.resolveEmbeddingModel();
+    const stale = indexes.find(index => index.model !== model);
+    if (stale) {
+      throw new ValidationError(`${stale.root} was indexed with ${stale.model}, not ${model}; reindex it first`, 'paths', stale.root);
+    }
+
+    const { embeddings } = await client.embed([query], { signal });
+    const queryVector = normalize(embeddings[0]!);
+
+    const hits: SearchHit[] = [];
+    for (const index of indexes) {
+      for (const [file, entry] of index.files) {
+        for (const chunk of entry.chunks) {
+          const score = dot(queryVector, chunk.vector);
+          if (score >= minScore) {
+            hits.push({
+              file: path.join(index.root, file),
+              startLine: chunk.startLine,
+              endLine: chunk.endLine,
+              score: Math.round(score * 1000) / 1000,
+              snippet: chunk.text
+            });
+          }
+        }
+      }
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
+
+export const semanticIndex = new SemanticIndex();
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { logger } from './logger.js';
+import { StructuredOutputError } from './validation.js';
+import type { LMStudioClient } from './lm-studio-client.js';
+import type { ResponseFormat } from './providers.js';
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * A JSON schema for constrained decoding plus the zod schema that the
+ * parsed result must satisfy.
+ */
+export interface StructuredOutputSpec<T> extends ResponseFormat {
+  validator: z.ZodType<T>;
+}
+
+export function toResponseFormat(spec: StructuredOutputSpec<unknown>): ResponseFormat {
+  return { name: spec.name, schema: spec.schema };
+}
+
+/**
+ * Parse JSON from a model response, tolerating markdown code fences and
+ * prose around the JSON value.
+ */
+export function parseJsonResponse(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+  const candidate = fenced ? fenced[1]!.trim() : trimmed;
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      throw error;
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+/**
+ * Whether a response parses to output the spec accepts. Passed to complete()
+ * as `validate`, so output that needs repair is never cached.
+ */
+export function matchesSpec(spec: StructuredOutputSpec<unknown>): (response: string) => boolean {
+  return response => {
+    try {
+      return spec.validator.safeParse(parseJsonResponse(response)).success;
+    } catch {
+      return false;
+    }
+  };
+}
+
+function describeFailure(error: unknown): string[] {
+  if (error instanceof z.ZodError) {
+    return error.errors.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  return [error instanceof Error ? error.message : String(error)];
+}
+
+function buildRepairPrompt(spec: StructuredOutputSpec<unknown>, response: string, issues: string[]): string {
+  return `The following response was supposed to be JSON matching this schema, but it is invalid.
+
+Schema:
+${JSON.stringify(spec.schema, null, 2)}
+
+Problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Invalid response:
+${response}
+
+Return ONLY the corrected JSON, no explanation:`;
+}
+
+/**
+ * Run `generate` and validate its output against the spec. Invalid output is
+ * sent back to the model for repair up to MAX_REPAIR_ATTEMPTS times before a
+ * StructuredOutputError is thrown.
+ */
+export async function completeJson<T>(
+  client: LMStudioClient,
+  spec: StructuredOutputSpec<T>,
+  generate: () => Promise<string>,
+  options: { maxTokens?: number; signal?: AbortSignal; waitForRateLimit?: boolean } = {}
+): Promise<T> {
+  let response = await generate();
+
+  for (let attempt = 0; ; attempt++) {
+    let issues: string[];
+    try {
+      return spec.validator.parse(parseJsonResponse(response));
+    } catch (error) {
+      issues = describeFailure(error);
+    }
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new StructuredOutputError(
+        `Model output did not match the ${spec.name} schema after ${MAX_REPAIR_ATTEMPTS} repair attempts: ${issues.join('; ')}`,
+        spec.name,
+        response,
+        issues
+      );
+    }
+
+    logger.warn('Structured output invalid, requesting repair', {
+      schema: spec.name,
+      attempt: attempt + 1,
+      issues
+    });
+
+    response = await client.complete(buildRepairPrompt(spec, response, issues), {
+      temperature: 0,
+      maxTokens: options.maxTokens,
+      jsonSchema: toResponseFormat(spec),
+      signal: options.signal,
+      waitForRateLimit: options.waitForRateLimit
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from '@jest/globals';
+import { checkTestCode, extractTestCode, verifyGeneratedTests } from './test-verification.js';
+
+const source = 'export function add(a: number, b: number): number {\n  return a + b;\n}\n';
+
+describe('extractTestCode', () => {
+  it('joins the JS/TS fenced blocks and skips other languages', () => {
+    const response = [
+      'Here are the tests:',
+      '```ts\nimport { add } from "./add";\n```',
+      '```bash\nnpm test\n```',
+      '```\nit("adds", () => expect(add(1, 2)).toBe(3));\n```'
+    ].join('\n');
+
+    expect(extractTestCode(response)).toBe('import { add } from "./add";\n\nit("adds", () => expect(add(1, 2)).toBe(3));');
+  });
+
+  it('uses the whole response when it has no fences', () => {
+    expect(extractTestCode('  it("works", () => {});\n')).toBe('it("works", () => {});');
+  });
+});
+
+describe('checkTestCode', () => {
+  it('reports syntax errors with their position in syntax mode', async () => {
+    const diagnostics = await checkTestCode('it("adds", () => {\n  expect(1).toBe(1;\n});', source, 'typescript', 'syntax');
+    expect(diagnostics).toEqual([expect.objectContaining({ line: 2, code: 1005 })]);
+  });
+
+  it('ignores type errors in syntax mode', async () => {
+    expect(await checkTestCode('const count: number = "one";', source, 'typescript', 'syntax')).toEqual([]);
+  });
+
+  it('type-checks relative imports against the exported source in types mode', async () => {
+    const valid = 'import { add } from "../src/add";\nimport { render } from "@testing-library/react";\n'
+      + 'describe("add", () => { it("adds", () => expect(add(1, 2)).toBe(3)); });\nrender;';
+    expect(await checkTestCode(valid, source, 'typescript', 'types')).toEqual([]);
+
+    const wrong = 'import { add, subtract } from "./add";\nadd("1", 2);\nsubtract;';
+    const codes = (await checkTestCode(wrong, source, 'typescript', 'types')).map(diagnostic => diagnostic.code);
+    // subtract is not exported; "1" is not a number
+    expect(codes.sort()).toEqual([2305, 2345]);
+  });
+
+  it('leaves imports from a snippet that exports nothing untyped', async () => {
+    const snippet = 'function add(a: number, b: number) {\n  return a + b;\n}\n';
+    const test = 'import { add, anything } from "./snippet";\nadd("1", 2);\nanything();';
+    expect(await checkTestCode(test, snippet, 'typescript', 'types')).toEqual([]);
+  });
+});
+
+describe('verifyGeneratedTests', () => {
+  const broken = '```ts\nimport { add } from "./add";\nconst total: string = add(1, 2);\n```';
+
+  it('sends the diagnostics back and keeps a repair that compiles', async () => {
+    const requests: string[][] = [];
+    const { testCode, report } = await verifyGeneratedTests(broken, {
+      sourceCode: source,
+      language: 'typescript',
+      mode: 'types',
+      maxRounds: 3,
+      repair: async (_testCode, diagnostics) => {
+        requests.push(diagnostics);
+        return '```ts\nimport { add } from "./add";\nconst total: number = add(1, 2);\n```';
+      }
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]![0]).toMatch(/^line 2:7 TS2322: /);
+    expect(testCode).toBe('import { add } from "./add";\nconst total: number = add(1, 2);');
+    expect(report).toMatchObject({ mode: 'types', passed: true, repairRounds: 1, diagnostics: [] });
+    expect(report.compiler).toMatch(/^TypeScript \d+\.\d+/);
+  });
+
+  it('keeps the better version when a repair makes things worse', async () => {
+    let rounds = 0;
+    const { testCode, report } = await verifyGeneratedTests(broken, {
+      sourceCode: source,
+      language: 'typescript',
+      mode: 'types',
+      maxRounds: 2,
+      repair: async () => {
+        rounds++;
+        return '```ts\nconst a: string = 1;\nconst b: string = 2;\n```';
+      }
+    });
+
+    expect(rounds).toBe(2);
+    expect(testCode).toBe(extractTestCode(broken));
+    expect(report).toMatchObject({ passed: false, repairRounds: 2 });
+    expect(report.diagnostics).toHaveLength(1);
+  });
+
+  it('stops when a repair returns no code', async () => {
+    const { report } = await verifyGeneratedTests(broken, {
+      sourceCode: source,
+      language: 'typescript',
+      mode: 'types',
+      maxRounds: 3,
+      repair: async () => '   '
+    });
+    expect(report).toMatchObject({ passed: false, repairRounds: 1 });
+  });
+});
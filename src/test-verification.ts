@@ -0,0 +1,225 @@
+import type ts from 'typescript';
+import { logger } from './logger.js';
+import { CancelledError, ValidationError } from './validation.js';
+
+type TypeScript = typeof ts;
+
+export type VerifyMode = 'syntax' | 'types';
+
+export interface TestDiagnostic {
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+export interface VerificationReport {
+  mode: VerifyMode;
+  compiler: string;
+  passed: boolean;
+  repairRounds: number;
+  // Diagnostics of the returned test file; empty when it passed
+  diagnostics: TestDiagnostic[];
+}
+
+const SCRIPT_LANGUAGES = ['javascript', 'js', 'jsx', 'typescript', 'ts', 'tsx'];
+const MAX_REPORTED_DIAGNOSTICS = 20;
+
+// Test framework and Node globals are typed as any: the point is to catch
+// code that doesn't compile, not to require each framework's type definitions.
+// Imports of packages resolve to the ambient '*' module, also as any.
+const AMBIENT_DECLARATIONS = `
+declare module '*';
+declare const describe: any, it: any, test: any, expect: any, jest: any, vi: any;
+declare const beforeEach: any, afterEach: any, beforeAll: any, afterAll: any;
+declare const process: any, require: any, module: any, Buffer: any, __dirname: string, __filename: string;
+`;
+
+const AMBIENT_FILE = '/__ambient__.d.ts';
+
+// Stands in for code under test that exports nothing (a bare snippet): as an
+// external JS file that is never loaded, every import from it is untyped
+const UNTYPED_SOURCE: ts.ResolvedModuleFull = {
+  resolvedFileName: '/node_modules/__source__/index.js',
+  extension: '.js' as ts.Extension,
+  isExternalLibraryImport: true
+};
+
+// Library files are parsed once and shared by every check
+const libFiles = new Map<string, ts.SourceFile>();
+
+let compiler: Promise<TypeScript> | undefined;
+
+// The compiler is an optional dependency, loaded by the first check
+function loadTypeScript(): Promise<TypeScript> {
+  compiler ??= import('typescript')
+    .then(module => module.default)
+    .catch(error => {
+      compiler = undefined;
+      logger.warn('TypeScript compiler not available', { error: error instanceof Error ? error.message : error });
+      throw new ValidationError('Test verification needs the optional typescript package; install it with `npm install typescript`', 'verify');
+    });
+  return compiler;
+}
+
+export function isScriptLanguage(language: string): boolean {
+  return SCRIPT_LANGUAGES.includes(language.toLowerCase());
+}
+
+export function isTypeScript(language: string): boolean {
+  return ['typescript', 'ts', 'tsx'].includes(language.toLowerCase());
+}
+
+/**
+ * The test code in a model response: its JS/TS fenced code blocks joined
+ * together, or the whole response when it has no fences.
+ */
+export function extractTestCode(response: string): string {
+  const blocks = [...response.matchAll(/```([\w+-]*)[^\n]*\n([\s\S]*?)```/g)]
+    .filter(([, language]) => !language || isScriptLanguage(language))
+    .map(([, , code]) => code!.trimEnd());
+  return blocks.length > 0 ? blocks.join('\n\n') : response.trim();
+}
+
+function toDiagnostic(ts: TypeScript, diagnostic: ts.Diagnostic): TestDiagnostic {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : { line: 0, character: 0 };
+  return {
+    line: position.line + 1,
+    column: position.character + 1,
+    code: diagnostic.code,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+  };
+}
+
+function compilerOptions(ts: TypeScript, jsx: boolean): ts.CompilerOptions {
+  return {
+    noEmit: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    ...(jsx && { jsx: ts.JsxEmit.Preserve }),
+    allowJs: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    types: []
+  };
+}
+
+/**
+ * Compile `testCode` in memory. 'syntax' only parses it; 'types' also
+ * type-checks it against `sourceCode`, which every relative import of the
+ * test resolves to. Imports from source that exports nothing are untyped.
+ */
+export async function checkTestCode(testCode: string, sourceCode: string, language: string, mode: VerifyMode): Promise<TestDiagnostic[]> {
+  const ts = await loadTypeScript();
+  const lower = language.toLowerCase();
+  const jsx = lower === 'jsx' || lower === 'tsx';
+  const extension = isTypeScript(lower) ? (jsx ? '.tsx' : '.ts') : (jsx ? '.jsx' : '.js');
+  const testFile = `/test${extension}`;
+
+  if (mode === 'syntax') {
+    const result = ts.transpileModule(testCode, {
+      fileName: testFile,
+      reportDiagnostics: true,
+      compilerOptions: compilerOptions(ts, jsx)
+    });
+    return (result.diagnostics ?? []).map(diagnostic => toDiagnostic(ts, diagnostic));
+  }
+
+  const sourceFile = `/source${extension}`;
+  const options = compilerOptions(ts, jsx);
+  const files = new Map([
+    [testFile, testCode],
+    [sourceFile, sourceCode],
+    [AMBIENT_FILE, AMBIENT_DECLARATIONS]
+  ]);
+  const sourceIsModule = ts.isExternalModule(ts.createSourceFile(sourceFile, sourceCode, ts.ScriptTarget.ES2022));
+  const importTarget = sourceIsModule
+    ? { resolvedFileName: sourceFile, extension: extension as ts.Extension }
+    : UNTYPED_SOURCE;
+  const host = ts.createCompilerHost(options);
+  const getLibFile = host.getSourceFile.bind(host);
+
+  host.getSourceFile = (fileName, languageVersion) => {
+    const text = files.get(fileName);
+    if (text !== undefined) {
+      return ts.createSourceFile(fileName, text, languageVersion, true);
+    }
+    let lib = libFiles.get(fileName);
+    if (!lib) {
+      lib = getLibFile(fileName, languageVersion);
+      if (lib) libFiles.set(fileName, lib);
+    }
+    return lib;
+  };
+  host.fileExists = fileName => files.has(fileName) || ts.sys.fileExists(fileName);
+  host.readFile = fileName => files.get(fileName) ?? ts.sys.readFile(fileName);
+  host.writeFile = () => undefined;
+  host.resolveModuleNameLiterals = literals => literals.map(literal => ({
+    resolvedModule: literal.text.startsWith('.') ? importTarget : undefined
+  }));
+
+  const program = ts.createProgram([testFile, sourceFile, AMBIENT_FILE], options, host);
+  return ts.getPreEmitDiagnostics(program, program.getSourceFile(testFile)).map(diagnostic => toDiagnostic(ts, diagnostic));
+}
+
+export function formatDiagnostics(diagnostics: TestDiagnostic[]): string[] {
+  return diagnostics
+    .slice(0, MAX_REPORTED_DIAGNOSTICS)
+    .map(diagnostic => `line ${diagnostic.line}:${diagnostic.column} TS${diagnostic.code}: ${diagnostic.message}`);
+}
+
+/**
+ * Check the generated tests and send the diagnostics back to the model up to
+ * `maxRounds` times. Returns the last test file with its report, even when
+ * diagnostics remain; a repair that fails to produce code ends the loop early.
+ */
+export async function verifyGeneratedTests(
+  response: string,
+  options: {
+    sourceCode: string;
+    language: string;
+    mode: VerifyMode;
+    maxRounds: number;
+    repair: (testCode: string, diagnostics: string[]) => Promise<string>;
+    signal?: AbortSignal;
+  }
+): Promise<{ testCode: string; report: VerificationReport }> {
+  let testCode = extractTestCode(response);
+  let diagnostics = await checkTestCode(testCode, options.sourceCode, options.language, options.mode);
+  let rounds = 0;
+
+  while (diagnostics.length > 0 && rounds < options.maxRounds) {
+    if (options.signal?.aborted) {
+      throw new CancelledError();
+    }
+    rounds++;
+    const issues = formatDiagnostics(diagnostics);
+    logger.warn('Generated tests do not compile, requesting repair', {
+      mode: options.mode,
+      round: rounds,
+      diagnostics: diagnostics.length
+    });
+
+    const repaired = extractTestCode(await options.repair(testCode, issues));
+    if (!repaired) break;
+    const repairedDiagnostics = await checkTestCode(repaired, options.sourceCode, options.language, options.mode);
+    // Keep the better of the two, so a bad repair can't make the result worse
+    if (repairedDiagnostics.length <= diagnostics.length) {
+      testCode = repaired;
+      diagnostics = repairedDiagnostics;
+    }
+  }
+
+  return {
+    testCode,
+    report: {
+      mode: options.mode,
+      compiler: `TypeScript ${(await loadTypeScript()).version}`,
+      passed: diagnostics.length === 0,
+      repairRounds: rounds,
+      diagnostics
+    }
+  };
+}
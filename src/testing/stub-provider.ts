@@ -0,0 +1,79 @@
+import type {
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  LLMProvider,
+  ModelInfo,
+  ProviderCapabilities,
+  StreamSummary
+} from '../providers.js';
+
+export interface StubProviderOptions {
+  // Completions answer with these in turn, or with what the function returns
+  responses?: string[] | ((request: CompletionRequest) => string);
+  models?: ModelInfo[];
+  capabilities?: Partial<ProviderCapabilities>;
+  // Embeddings count these words in the text
+  keywords?: string[];
+}
+
+const USAGE = { promptTokens: 3, completionTokens: 2, totalTokens: 5 };
+
+/**
+ * In-memory backend for tests. Records every completion request and the size
+ * of every embeddings request; embeds text as keyword counts, so texts
+ * sharing keywords are similar.
+ */
+export class StubProvider implements LLMProvider {
+  readonly type = 'lmstudio' as const;
+  readonly baseUrl = 'http://stub';
+  readonly capabilities: ProviderCapabilities;
+  models: ModelInfo[];
+  requests: CompletionRequest[] = [];
+  streamed = 0;
+  batches: number[] = [];
+  private responses: string[] | ((request: CompletionRequest) => string);
+  private keywords: string[];
+
+  constructor(options: StubProviderOptions = {}) {
+    this.responses = options.responses ?? [];
+    this.models = options.models ?? [{ id: 'chat-model' }, { id: 'embed-a', type: 'embedding' }];
+    this.capabilities = { streaming: true, embeddings: true, jsonSchema: true, modelManagement: false, ...options.capabilities };
+    this.keywords = options.keywords ?? ['apple', 'banana', 'cherry'];
+  }
+
+  private respond(request: CompletionRequest): string {
+    this.requests.push(request);
+    return typeof this.responses === 'function' ? this.responses(request) : this.responses.shift() ?? '';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    return { content: this.respond(request), model: request.model, usage: USAGE };
+  }
+
+  async completeStream(request: CompletionRequest, onChunk: (chunk: string) => void): Promise<StreamSummary> {
+    this.streamed++;
+    onChunk(this.respond(request));
+    return { model: request.model, usage: USAGE };
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    if (!this.capabilities.embeddings) {
+      throw new Error('not supported');
+    }
+    this.batches.push(request.input.length);
+    return {
+      model: request.model,
+      embeddings: request.input.map(text => [...this.keywords.map(word => text.split(word).length - 1), 0.1])
+    };
+  }
+
+  async listModels() {
+    return this.models;
+  }
+
+  async checkHealth() {
+    return true;
+  }
+}
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { analyzeCodeFindingsPrompt, getToolByName } from './tools.js';
+import { AnalyzeCodeSchema } from './validation.js';
+import { LMStudioClient } from './lm-studio-client.js';
+import { FileSandbox } from './sandbox.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { StubProvider } from './testing/stub-provider.js';
+
+// Prompt rendering only asks the client which model the prompt is for
+const promptClient = { resolveModel: () => 'local-model' } as unknown as LMStudioClient;
+
+describe('analyzeCodeFindingsPrompt', () => {
+  it('sends the code unchanged, so reported columns match the validated lines', () => {
+    const code = 'const first = (items: Array<number>) => items[0];\nconst el = <div>{first([1])}</div>;';
+    const input = AnalyzeCodeSchema.parse({ code, language: 'tsx', outputFormat: 'json' });
+    const prompt = analyzeCodeFindingsPrompt(promptClient, input, code.split('\n'));
+
+    expect(prompt).toContain('1 | const first = (items: Array<number>) => items[0];');
+    expect(prompt).toContain('2 | const el = <div>{first([1])}</div>;');
+  });
+});
+
+describe('markdown batches', () => {
+  let dir: string;
+  let client: LMStudioClient;
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-batch-')));
+    // File reads still need real event-loop turns
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+  });
+
+  afterEach(async () => {
+    await client.shutdown();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('waits for rate-limit slots instead of failing files beyond the per-minute limit', async () => {
+    const files = config.rateLimit.maxRequestsPerMinute + 10;
+    for (let i = 0; i < files; i++) {
+      fs.writeFileSync(path.join(dir, `doc-${i}.md`), `# Doc ${i}\n\nBody of document ${i}.`);
+    }
+    const provider = new StubProvider({ responses: () => 'summary' });
+    client = new LMStudioClient(provider);
+
+    // The clock only moves by the waits the client announces, so without them
+    // every file runs within the same minute
+    const waits: number[] = [];
+    jest.spyOn(logger, 'debug').mockImplementation(((_message: string, meta?: { wait_ms?: number }) => {
+      if (meta?.wait_ms) waits.push(meta.wait_ms);
+    }) as any);
+
+    const started = Date.now();
+    let settled = false;
+    const run = getToolByName('summarize_markdown')!
+      .handler({ paths: [dir] }, client, { sandbox: new FileSandbox([dir]) })
+      .finally(() => { settled = true; });
+    while (!settled) {
+      const wait = waits.shift();
+      if (wait) {
+        await jest.advanceTimersByTimeAsync(wait);
+      } else {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+    const { summary } = JSON.parse(await run);
+
+    expect(summary).toEqual({ files, succeeded: files, failed: 0 });
+    expect(provider.requests).toHaveLength(files);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(60_000);
+  });
+});
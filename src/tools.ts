@@ -9,30 +9,483 @@ import {
   AnalyzeMarkdownSchema,
   SummarizeMarkdownSchema,
   TagMarkdownSchema,
+  CacheAdminSchema,
+  ListModelsSchema,
+  LoadModelSchema,
+  UnloadModelSchema,
+  SemanticSearchSchema,
+  ChatSchema,
+  ListChatSessionsSchema,
+  DeleteChatSessionSchema,
+  AskLocalModelSchema,
+  TagListOutputSchema,
+  TagMetadataOutputSchema,
+  StructuredDocumentOutputSchema,
+  CodeFindingsOutputSchema,
+  RefactorEditsOutputSchema,
   sanitizeInput,
   detectPotentialInjection,
   ValidationError
 } from './validation.js';
-import { LMStudioClient } from './lm-studio-client.js';
+import { LMStudioClient, ProgressReporter } from './lm-studio-client.js';
 import { logger } from './logger.js';
+import { completeWithChunking, formatPartials, MapReducePrompts } from './chunking.js';
+import { completeJson, matchesSpec, toResponseFormat, StructuredOutputSpec } from './structured-output.js';
 import crypto from 'crypto';
-import fs from 'fs/promises';
-import path from 'path';
+import { z } from 'zod';
+import { FileSandbox } from './sandbox.js';
+import { expandPaths, mapWithConcurrency, BatchItemResult } from './batch.js';
+import { planWriteBack, commitWriteBack } from './write-back.js';
+import { prompts } from './prompts.js';
+import { semanticIndex } from './semantic-index.js';
+import { chatSessions } from './chat-sessions.js';
+import { SAMPLING_PRESET_NAMES, resolveSampling } from './sampling-presets.js';
+import type { ChatMessage } from './providers.js';
+import { toSarif } from './sarif.js';
+import { buildRefactorPatch } from './refactor-patch.js';
+import { verifyGeneratedTests, isScriptLanguage, isTypeScript } from './test-verification.js';
+import { config } from './config.js';
+
+// Per-call facilities the MCP server hands to tool handlers
+export interface ToolContext {
+  // Sends notifications/progress; unset when the client supplied no progress token,
+  // so completions only stream when someone is watching
+  reportProgress?: ProgressReporter;
+  // Aborted when the client cancels the tool call
+  signal?: AbortSignal;
+  // Filesystem policy for filePath arguments, including the client's roots
+  sandbox?: FileSandbox;
+  // The client's MCP session in HTTP mode, which scopes per-client state such as chat sessions
+  mcpSessionId?: string;
+  // Set for batch items, whose completions wait for a rate-limit slot instead of failing
+  waitForRateLimit?: boolean;
+}
 
 export interface Tool {
   name: string;
   description: string;
   inputSchema: Record<string, any>;
-  handler: (args: any, client: LMStudioClient) => Promise<string>;
+  handler: (args: any, client: LMStudioClient, context?: ToolContext) => Promise<string>;
   cacheable?: boolean;
-  timeout?: number;
+  // False for tools that never call the model; others accept a per-call `model` argument
+  usesModel?: boolean;
 }
 
-function generateCacheKey(toolName: string, args: any): string {
+// Keys are prefixed with the tool name so the cache can apply per-tool TTLs.
+// LMStudioClient.complete() further scopes them by model and sampling params.
+export function generateCacheKey(toolName: string, args: any): string {
   const hash = crypto.createHash('sha256');
   hash.update(toolName);
+  hash.update(prompts.fingerprint(toolName));
   hash.update(JSON.stringify(args));
-  return hash.digest('hex');
+  return `${toolName}:${hash.digest('hex')}`;
+}
+
+const defaultSandbox = new FileSandbox();
+
+// Reads markdown from filePath (subject to the sandbox) or returns inline content
+export async function loadMarkdownContent(
+  input: { filePath?: string; content?: string },
+  context?: ToolContext
+): Promise<string> {
+  if (input.filePath) {
+    const sandbox = context?.sandbox ?? defaultSandbox;
+    const content = await sandbox.readFile(input.filePath);
+    logger.info(`Loaded markdown file: ${input.filePath}`);
+    return content;
+  }
+  if (input.content) {
+    return input.content;
+  }
+  throw new ValidationError('Either filePath or content must be provided');
+}
+
+type BatchAggregator = (results: BatchItemResult<string>[]) => unknown;
+
+/**
+ * Runs a markdown tool once per file matched by `paths`, at most `concurrency`
+ * files at a time, and returns a per-file result table plus an optional
+ * corpus-wide aggregate. A failing file is reported in the table and does not
+ * stop the batch.
+ */
+async function runMarkdownBatch(
+  toolName: string,
+  input: { paths: string[]; concurrency?: number; filePath?: string; content?: string },
+  client: LMStudioClient,
+  context: ToolContext | undefined,
+  aggregate?: BatchAggregator
+): Promise<string> {
+  const { paths, concurrency, filePath: _filePath, content: _content, ...perFileArgs } = input;
+  const sandbox = context?.sandbox ?? defaultSandbox;
+  const tool = getToolByName(toolName)!;
+
+  const files = await expandPaths(paths, sandbox);
+  if (files.length === 0) {
+    throw new ValidationError(`No files matched: ${paths.join(', ')}`, 'paths');
+  }
+
+  const lanes = Math.min(concurrency ?? config.batch.concurrency, config.rateLimit.maxConcurrent);
+  logger.info(`Starting ${toolName} batch`, { files: files.length, concurrency: lanes });
+  context?.reportProgress?.(0, files.length, `Processing ${files.length} files`);
+
+  const results = await mapWithConcurrency(
+    files,
+    lanes,
+    file => tool.handler({ ...perFileArgs, filePath: file }, client, {
+      signal: context?.signal,
+      sandbox,
+      waitForRateLimit: true
+    }),
+    {
+      signal: context?.signal,
+      onItemDone: completed => context?.reportProgress?.(completed, files.length, `Processed ${completed} of ${files.length} files`)
+    }
+  );
+
+  const failed = results.filter(result => result.status === 'error').length;
+  logger.info(`Finished ${toolName} batch`, { files: files.length, failed });
+
+  return JSON.stringify({
+    summary: { files: files.length, succeeded: files.length - failed, failed },
+    ...(aggregate && { aggregate: aggregate(results) }),
+    results
+  }, null, 2);
+}
+
+// Corpus-wide tag index: each tag with the files it was found in, most common first
+function buildTagIndex(results: BatchItemResult<string>[]) {
+  const index = new Map<string, { tag: string; files: string[] }>();
+  for (const { file, result } of results) {
+    if (result === undefined) continue;
+    for (const entry of JSON.parse(result) as Array<string | { tag: string }>) {
+      const tag = typeof entry === 'string' ? entry : entry.tag;
+      const key = tag.toLowerCase();
+      const existing = index.get(key) ?? { tag, files: [] };
+      existing.files.push(file);
+      index.set(key, existing);
+    }
+  }
+  return [...index.values()]
+    .map(({ tag, files }) => ({ tag, count: files.length, files }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// Docs quality scoreboard built from the grade and "n/10" scores in each analysis, worst first
+function buildQualityScoreboard(results: BatchItemResult<string>[]) {
+  const rows = results
+    .filter(result => result.result !== undefined)
+    .map(({ file, result }) => {
+      const scores = [...result!.matchAll(/\b(\d+(?:\.\d+)?)\s*\/\s*10\b/g)]
+        .map(match => parseFloat(match[1]!))
+        .filter(score => score <= 10);
+      const grade = result!.match(/grade\b[^A-F\n]*?\b([A-F][+-]?)(?![\w-])/i)?.[1] ?? null;
+      const averageScore = scores.length > 0
+        ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10
+        : null;
+      return { file, grade, averageScore };
+    });
+  return rows.sort((a, b) => (a.averageScore ?? Infinity) - (b.averageScore ?? Infinity));
+}
+
+// Renders a prompt template, using the override for the model that will serve it
+export function renderPrompt(client: LMStudioClient, id: string, variables: Record<string, string | number> = {}): string {
+  return prompts.render(id, variables, client.resolveModel());
+}
+
+// Renders one `- description` line per selected option, e.g. analyze_code.check.*
+function renderOptionList(client: LMStudioClient, prefix: string, options: readonly string[]): string {
+  return options.map(option => `- ${renderPrompt(client, `${prefix}.${option}`)}`).join('\n');
+}
+
+// Reports generated token counts as progress while a completion streams
+export function tokenProgress(context: ToolContext | undefined, maxTokens?: number) {
+  const report = context?.reportProgress;
+  return report && ((tokens: number) => report(tokens, maxTokens, `Generated ${tokens} tokens`));
+}
+
+function tagListOutput(maxTags: number): StructuredOutputSpec<{ tags: string[] }> {
+  return {
+    name: 'tag_list',
+    schema: {
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string' }, maxItems: maxTags }
+      },
+      required: ['tags'],
+      additionalProperties: false
+    },
+    validator: TagListOutputSchema
+  };
+}
+
+function tagMetadataOutput(maxTags: number, categories: string[]): StructuredOutputSpec<{
+  tags: Array<{ tag: string; category: string; relevance: 'high' | 'medium' | 'low' }>
+}> {
+  return {
+    name: 'tag_metadata',
+    schema: {
+      type: 'object',
+      properties: {
+        tags: {
+          type: 'array',
+          maxItems: maxTags,
+          items: {
+            type: 'object',
+            properties: {
+              tag: { type: 'string' },
+              category: { type: 'string', enum: categories },
+              relevance: { type: 'string', enum: ['high', 'medium', 'low'] }
+            },
+            required: ['tag', 'category', 'relevance'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['tags'],
+      additionalProperties: false
+    },
+    validator: TagMetadataOutputSchema
+  };
+}
+
+// Findings whose lines and columns must exist in the analyzed code; the
+// problems are sent back to the model like any other schema violation
+function codeFindingsOutput(lines: string[], checks: string[]): StructuredOutputSpec<z.infer<typeof CodeFindingsOutputSchema>> {
+  return {
+    name: 'code_findings',
+    schema: {
+      type: 'object',
+      properties: {
+        findings: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ruleId: { type: 'string' },
+              category: { type: 'string', enum: checks },
+              severity: { type: 'string', enum: ['high', 'medium', 'low'] },
+              message: { type: 'string' },
+              startLine: { type: 'integer', minimum: 1, maximum: lines.length },
+              endLine: { type: 'integer', minimum: 1, maximum: lines.length },
+              startColumn: { type: 'integer', minimum: 1 },
+              endColumn: { type: 'integer', minimum: 1 },
+              suggestedFix: { type: 'string' }
+            },
+            required: ['ruleId', 'category', 'severity', 'message', 'startLine'],
+            additionalProperties: false
+          }
+        },
+        score: { type: 'number', minimum: 1, maximum: 10 }
+      },
+      required: ['findings', 'score'],
+      additionalProperties: false
+    },
+    validator: CodeFindingsOutputSchema.superRefine((output, ctx) => {
+      output.findings.forEach((finding, index) => {
+        const issue = (field: string, message: string) =>
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['findings', index, field], message });
+        const endLine = finding.endLine ?? finding.startLine;
+
+        if (finding.startLine > lines.length) {
+          issue('startLine', `line ${finding.startLine} is past the end of the code (${lines.length} lines)`);
+          return;
+        }
+        if (endLine < finding.startLine || endLine > lines.length) {
+          issue('endLine', `must be between startLine (${finding.startLine}) and the last line (${lines.length})`);
+          return;
+        }
+        // Columns may point one past the last character, where SARIF end columns point
+        const startWidth = lines[finding.startLine - 1]!.length + 1;
+        const endWidth = lines[endLine - 1]!.length + 1;
+        if (finding.startColumn && finding.startColumn > startWidth) {
+          issue('startColumn', `line ${finding.startLine} only has ${startWidth - 1} characters`);
+        }
+        if (finding.endColumn && finding.endColumn > endWidth) {
+          issue('endColumn', `line ${endLine} only has ${endWidth - 1} characters`);
+        }
+        if (finding.startColumn && finding.endColumn && endLine === finding.startLine && finding.endColumn < finding.startColumn) {
+          issue('endColumn', 'must not be before startColumn');
+        }
+      });
+    })
+  };
+}
+
+const refactorEditsOutput: StructuredOutputSpec<z.infer<typeof RefactorEditsOutputSchema>> = {
+  name: 'refactor_edits',
+  schema: {
+    type: 'object',
+    properties: {
+      suggestions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+            rationale: { type: 'string' },
+            original: { type: 'string' },
+            replacement: { type: 'string' }
+          },
+          required: ['title', 'priority', 'rationale', 'original', 'replacement'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['suggestions'],
+    additionalProperties: false
+  },
+  validator: RefactorEditsOutputSchema
+};
+
+/**
+ * refactor_suggestions in diff mode: the model quotes the lines each
+ * suggestion replaces, the bridge builds and verifies the patch, and
+ * suggestions that don't apply go back to the model up to repairRounds times
+ * before they are dropped.
+ */
+async function refactorAsPatch(
+  client: LMStudioClient,
+  input: z.infer<typeof RefactorSuggestionsSchema>,
+  context?: ToolContext
+): Promise<string> {
+  const fileName = input.fileName ?? 'input';
+  const requestEdits = (prompt: string) => completeJson(client, refactorEditsOutput, () => client.complete(prompt, {
+    temperature: 0.2,
+    maxTokens: 3000,
+    jsonSchema: toResponseFormat(refactorEditsOutput),
+    validate: matchesSpec(refactorEditsOutput),
+    onToken: tokenProgress(context, 3000),
+    signal: context?.signal
+  }), { maxTokens: 3000, signal: context?.signal });
+
+  const { suggestions } = await requestEdits(renderPrompt(client, 'refactor_suggestions.edits', {
+    language: input.language,
+    focus: renderPrompt(client, `refactor_suggestions.focus.${input.focus}`),
+    // Unsanitized: quoted lines must match the code character for character
+    code: input.code
+  }));
+  let result = buildRefactorPatch(input.code, suggestions, fileName);
+
+  for (let round = 0; round < input.repairRounds && result.rejected.length > 0; round++) {
+    logger.warn('Refactoring suggestions do not apply, requesting repair', { round: round + 1, rejected: result.rejected.length });
+    const retried = await requestEdits(renderPrompt(client, 'refactor_suggestions.edits_repair', {
+      language: input.language,
+      rejected: result.rejected.map(({ edit, reason }) => `- "${edit.title}": ${reason}`).join('\n'),
+      code: input.code
+    }));
+    const kept = result.suggestions.map(({ title, priority, rationale, original, replacement }) => ({ title, priority, rationale, original, replacement }));
+    result = buildRefactorPatch(input.code, [...kept, ...retried.suggestions], fileName);
+  }
+
+  return JSON.stringify({
+    file: fileName,
+    patch: result.patch,
+    suggestions: result.suggestions.map(({ original, replacement, ...suggestion }) => suggestion),
+    dropped: result.rejected.map(({ edit, reason }) => ({ title: edit.title, priority: edit.priority, reason }))
+  }, null, 2);
+}
+
+const structuredDocumentOutput: StructuredOutputSpec<Record<string, string>> = {
+  name: 'structured_document',
+  schema: {
+    type: 'object',
+    additionalProperties: { type: 'string' }
+  },
+  validator: StructuredDocumentOutputSchema
+};
+
+// Prompt builders shared by the tool handlers and the MCP prompts capability
+
+export function generateDocsPrompt(client: LMStudioClient, input: z.infer<typeof GenerateDocsSchema>): string {
+  return renderPrompt(client, 'generate_docs.prompt', {
+    style: input.style,
+    language: input.language || 'code',
+    fenceLanguage: input.language || '',
+    code: sanitizeInput(input.code),
+    examplesInstruction: input.includeExamples ? 'Include practical usage examples.' : '',
+    styleDetail: renderPrompt(client, `generate_docs.style.${input.style}`),
+    examplesFormat: input.includeExamples ? '- Usage examples with expected outputs' : ''
+  });
+}
+
+export function analyzeCodePrompt(client: LMStudioClient, input: z.infer<typeof AnalyzeCodeSchema>): string {
+  return renderPrompt(client, 'analyze_code.prompt', {
+    language: input.language,
+    checks: renderOptionList(client, 'analyze_code.check', input.checks),
+    code: sanitizeInput(input.code)
+  });
+}
+
+// Prefixes each line with its number, so findings can cite exact lines
+function numberLines(lines: string[]): string {
+  const width = String(lines.length).length;
+  return lines.map((line, index) => `${String(index + 1).padStart(width)} | ${line}`).join('\n');
+}
+
+export function analyzeCodeFindingsPrompt(client: LMStudioClient, input: z.infer<typeof AnalyzeCodeSchema>, lines: string[]): string {
+  return renderPrompt(client, 'analyze_code.findings', {
+    language: input.language,
+    checks: renderOptionList(client, 'analyze_code.check', input.checks),
+    categories: input.checks.map(check => `"${check}"`).join(', '),
+    // Unsanitized: reported columns and snippets are checked against these lines
+    numberedCode: numberLines(lines)
+  });
+}
+
+export function refactorSuggestionsPrompt(client: LMStudioClient, input: z.infer<typeof RefactorSuggestionsSchema>): string {
+  return renderPrompt(client, 'refactor_suggestions.prompt', {
+    language: input.language,
+    focus: renderPrompt(client, `refactor_suggestions.focus.${input.focus}`),
+    code: sanitizeInput(input.code)
+  });
+}
+
+export function summarizePrompts(
+  client: LMStudioClient,
+  input: Pick<z.infer<typeof SummarizeSchema>, 'style' | 'max_words'>
+): MapReducePrompts {
+  const style = renderPrompt(client, `summarize.style.${input.style}`);
+  const maxWords = input.max_words;
+  return {
+    single: (content) => renderPrompt(client, 'summarize.single', { style, maxWords, content }),
+    map: (chunk, part, total) => renderPrompt(client, 'summarize.map', { part, total, content: chunk }),
+    reduce: (partials) => renderPrompt(client, 'summarize.reduce', { style, maxWords, partials: formatPartials(partials) })
+  };
+}
+
+export function summarizeMarkdownPrompts(
+  client: LMStudioClient,
+  input: Pick<z.infer<typeof SummarizeMarkdownSchema>, 'style' | 'maxPoints' | 'maxWords'>
+): MapReducePrompts {
+  const { maxPoints, maxWords } = input;
+  const style = renderPrompt(client, `summarize_markdown.style.${input.style}`, { maxPoints, maxWords });
+  return {
+    single: (content) => renderPrompt(client, 'summarize_markdown.single', { style, maxWords, content }),
+    map: (chunk, part, total) => renderPrompt(client, 'summarize_markdown.map', { part, total, content: chunk }),
+    reduce: (partials) => renderPrompt(client, 'summarize_markdown.reduce', {
+      style,
+      maxWords,
+      partials: formatPartials(partials)
+    })
+  };
+}
+
+export function analyzeMarkdownPrompts(
+  client: LMStudioClient,
+  input: Pick<z.infer<typeof AnalyzeMarkdownSchema>, 'checks'>
+): MapReducePrompts {
+  const checks = renderOptionList(client, 'analyze_markdown.check', input.checks);
+  const report = renderPrompt(client, 'analyze_markdown.report');
+  return {
+    single: (content) => renderPrompt(client, 'analyze_markdown.single', { checks, content, report }),
+    map: (chunk, part, total) => renderPrompt(client, 'analyze_markdown.map', { part, total, checks, content: chunk }),
+    reduce: (partials) => renderPrompt(client, 'analyze_markdown.reduce', {
+      checks,
+      partials: formatPartials(partials),
+      report
+    })
+  };
 }
 
 export const tools: Tool[] = [
@@ -54,7 +507,7 @@ export const tools: Tool[] = [
       required: ['code']
     },
     cacheable: true,
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = GenerateDocsSchema.parse(args);
       
       // Security check
@@ -62,29 +515,14 @@ export const tools: Tool[] = [
         throw new ValidationError('Potentially unsafe code detected');
       }
       
-      const sanitizedCode = sanitizeInput(validated.code);
-      
-      const prompt = `Generate ${validated.style} documentation for the following ${validated.language || 'code'}.
-${validated.includeExamples ? 'Include practical usage examples.' : ''}
-
-Code:
-\`\`\`${validated.language || ''}
-${sanitizedCode}
-\`\`\`
-
-Documentation format:
-- Clear description of purpose
-- Parameters/inputs explanation
-- Return values/outputs
-- ${validated.style === 'technical' ? 'Implementation details' : ''}
-- ${validated.style === 'user' ? 'User-friendly explanations' : ''}
-- ${validated.style === 'api' ? 'API usage patterns' : ''}
-${validated.includeExamples ? '- Usage examples with expected outputs' : ''}`;
+      const prompt = generateDocsPrompt(client, validated);
 
       const cacheKey = generateCacheKey('generate_docs', validated);
       return await client.complete(prompt, { 
         temperature: 0.3,
-        cacheKey 
+        cacheKey,
+        onToken: tokenProgress(context),
+        signal: context?.signal
       });
     }
   },
@@ -106,30 +544,18 @@ ${validated.includeExamples ? '- Usage examples with expected outputs' : ''}`;
       required: ['content']
     },
     cacheable: true,
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = SummarizeSchema.parse(args);
       
       const sanitizedContent = sanitizeInput(validated.content);
       
-      const styleInstructions = {
-        'brief': 'Provide a concise, high-level summary',
-        'detailed': 'Include key details and nuances',
-        'bullet-points': 'Format as clear bullet points'
-      };
-      
-      const prompt = `${styleInstructions[validated.style]}.
-Maximum ${validated.max_words} words.
-
-Content to summarize:
-${sanitizedContent}
-
-Summary:`;
-
       const cacheKey = generateCacheKey('summarize', validated);
-      return await client.complete(prompt, {
+      return await completeWithChunking(client, sanitizedContent, summarizePrompts(client, validated), {
         temperature: 0.2,
         maxTokens: validated.max_words * 2, // Approximate token count
-        cacheKey
+        cacheKey,
+        onProgress: context?.reportProgress,
+        signal: context?.signal
       });
     }
   },
@@ -147,7 +573,7 @@ Summary:`;
       required: ['code', 'language']
     },
     cacheable: true,
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = ExtractTagsSchema.parse(args);
       
       if (detectPotentialInjection(validated.code)) {
@@ -156,39 +582,23 @@ Summary:`;
       
       const sanitizedCode = sanitizeInput(validated.code);
       
-      const prompt = `Extract up to ${validated.maxTags} semantic tags from this ${validated.language} code.
-Focus on:
-- Main functionality/purpose
-- Key algorithms/patterns used
-- Technologies/frameworks
-- Data structures
-- Design patterns
-- Domain concepts
-
-Code:
-\`\`\`${validated.language}
-${sanitizedCode}
-\`\`\`
-
-Return ONLY a JSON array of strings, no explanation:`;
+      const prompt = renderPrompt(client, 'extract_tags.prompt', {
+        maxTags: validated.maxTags,
+        language: validated.language,
+        code: sanitizedCode
+      });
 
       const cacheKey = generateCacheKey('extract_tags', validated);
-      const response = await client.complete(prompt, {
+      const output = tagListOutput(validated.maxTags);
+      const { tags } = await completeJson(client, output, () => client.complete(prompt, {
         temperature: 0.1,
-        cacheKey
-      });
-      
-      // Validate JSON response
-      try {
-        const tags = JSON.parse(response);
-        if (!Array.isArray(tags)) {
-          throw new Error('Response is not an array');
-        }
-        return JSON.stringify(tags.slice(0, validated.maxTags));
-      } catch (error) {
-        logger.warn('Failed to parse tags as JSON, returning raw response', { error });
-        return response;
-      }
+        cacheKey,
+        jsonSchema: toResponseFormat(output),
+        validate: matchesSpec(output),
+        signal: context?.signal
+      }), { signal: context?.signal });
+
+      return JSON.stringify(tags.slice(0, validated.maxTags));
     }
   },
   
@@ -207,49 +617,57 @@ Return ONLY a JSON array of strings, no explanation:`;
             enum: ['security', 'performance', 'style', 'bugs']
           },
           description: 'Types of analysis to perform'
-        }
+        },
+        outputFormat: {
+          type: 'string',
+          enum: ['text', 'json', 'sarif'],
+          description: 'text for a prose report; json or sarif for typed findings with rule id, severity, line/column range and suggested fix'
+        },
+        fileName: { type: 'string', description: 'Path of the code, used as the artifact URI in json and sarif output' }
       },
       required: ['code', 'language']
     },
-    timeout: 45000, // Longer timeout for complex analysis
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = AnalyzeCodeSchema.parse(args);
       
       if (detectPotentialInjection(validated.code)) {
         throw new ValidationError('Potentially unsafe code detected');
       }
-      
-      const sanitizedCode = sanitizeInput(validated.code);
-      
-      const checkDescriptions = {
-        security: 'Security vulnerabilities (injection, XSS, authentication issues)',
-        performance: 'Performance bottlenecks and optimization opportunities',
-        style: 'Code style, readability, and best practices',
-        bugs: 'Potential bugs, logic errors, and edge cases'
-      };
-      
-      const selectedChecks = validated.checks
-        .map(check => `- ${checkDescriptions[check]}`)
-        .join('\n');
-      
-      const prompt = `Analyze this ${validated.language} code for:
-${selectedChecks}
 
-Code:
-\`\`\`${validated.language}
-${sanitizedCode}
-\`\`\`
+      if (validated.outputFormat === 'text') {
+        const prompt = analyzeCodePrompt(client, validated);
+
+        return await client.complete(prompt, {
+          temperature: 0.2,
+          maxTokens: 2000,
+          onToken: tokenProgress(context, 2000),
+          signal: context?.signal
+        });
+      }
 
-Provide a structured analysis with:
-1. Issues found (categorized by severity: HIGH, MEDIUM, LOW)
-2. Specific line numbers where applicable
-3. Recommended fixes
-4. Overall code quality score (1-10)`;
+      const lines = validated.code.split(/\r?\n/);
+      const prompt = analyzeCodeFindingsPrompt(client, validated, lines);
+      const output = codeFindingsOutput(lines, validated.checks);
+      const { findings, score } = await completeJson(client, output, () => client.complete(prompt, {
+        temperature: 0.1,
+        maxTokens: 3000,
+        jsonSchema: toResponseFormat(output),
+        validate: matchesSpec(output),
+        onToken: tokenProgress(context, 3000),
+        signal: context?.signal
+      }), { maxTokens: 3000, signal: context?.signal });
 
-      return await client.complete(prompt, {
-        temperature: 0.2,
-        maxTokens: 2000
-      });
+      findings.sort((a, b) => a.startLine - b.startLine || (a.startColumn ?? 0) - (b.startColumn ?? 0));
+      if (validated.outputFormat === 'json') {
+        return JSON.stringify({ file: validated.fileName, language: validated.language, score, findings }, null, 2);
+      }
+      return JSON.stringify(toSarif(findings, {
+        toolName: `${config.server.name} analyze_code`,
+        toolVersion: config.server.version,
+        uri: validated.fileName ?? 'input',
+        lines,
+        model: client.resolveModel()
+      }), null, 2);
     }
   },
   
@@ -265,43 +683,35 @@ Provide a structured analysis with:
           type: 'string',
           enum: ['readability', 'performance', 'maintainability', 'all'],
           description: 'Refactoring focus area'
-        }
+        },
+        outputFormat: {
+          type: 'string',
+          enum: ['text', 'diff'],
+          description: 'text for prose and snippets; diff for a unified patch against the code, verified to apply, plus a standalone patch per suggestion'
+        },
+        fileName: { type: 'string', description: 'Path of the code, used in the diff headers' },
+        repairRounds: { type: 'integer', description: 'Re-prompts for suggestions that do not apply before they are dropped (default 1, max 3)' }
       },
       required: ['code', 'language']
     },
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = RefactorSuggestionsSchema.parse(args);
       
       if (detectPotentialInjection(validated.code)) {
         throw new ValidationError('Potentially unsafe code detected');
       }
-      
-      const sanitizedCode = sanitizeInput(validated.code);
-      
-      const focusInstructions = {
-        readability: 'Focus on making the code more readable and self-documenting',
-        performance: 'Focus on performance optimizations and efficiency',
-        maintainability: 'Focus on modularity, testability, and future extensibility',
-        all: 'Consider all aspects: readability, performance, and maintainability'
-      };
-      
-      const prompt = `Suggest refactoring improvements for this ${validated.language} code.
-${focusInstructions[validated.focus]}.
-
-Original code:
-\`\`\`${validated.language}
-${sanitizedCode}
-\`\`\`
 
-Provide:
-1. Specific refactoring suggestions with explanations
-2. Code snippets showing the improvements
-3. Benefits of each change
-4. Priority ranking (HIGH, MEDIUM, LOW)`;
+      if (validated.outputFormat === 'diff') {
+        return await refactorAsPatch(client, validated, context);
+      }
+      
+      const prompt = refactorSuggestionsPrompt(client, validated);
 
       return await client.complete(prompt, {
         temperature: 0.3,
-        maxTokens: 2000
+        maxTokens: 2000,
+        onToken: tokenProgress(context, 2000),
+        signal: context?.signal
       });
     }
   },
@@ -315,41 +725,67 @@ Provide:
         code: { type: 'string', description: 'Code to test' },
         language: { type: 'string', description: 'Programming language' },
         framework: { type: 'string', description: 'Testing framework to use' },
-        coverageTarget: { type: 'number', description: 'Target test coverage percentage' }
+        coverageTarget: { type: 'number', description: 'Target test coverage percentage' },
+        verify: {
+          type: 'string',
+          enum: ['syntax', 'types'],
+          description: 'JavaScript/TypeScript only: check that the tests parse (syntax) or type-check against the code (types, TypeScript only), asking the model to fix errors'
+        },
+        repairRounds: { type: 'integer', description: 'Maximum repair attempts when verifying (default 2, max 5)' }
       },
       required: ['code', 'language']
     },
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = GenerateTestsSchema.parse(args);
       
       if (detectPotentialInjection(validated.code)) {
         throw new ValidationError('Potentially unsafe code detected');
       }
+      if (validated.verify && !isScriptLanguage(validated.language)) {
+        throw new ValidationError('verify is only supported for JavaScript and TypeScript', 'language', validated.language);
+      }
+      if (validated.verify === 'types' && !isTypeScript(validated.language)) {
+        throw new ValidationError('verify "types" needs TypeScript code; use "syntax" for JavaScript', 'verify', validated.verify);
+      }
       
       const sanitizedCode = sanitizeInput(validated.code);
       
-      const prompt = `Generate comprehensive test cases for this ${validated.language} code.
-${validated.framework ? `Use ${validated.framework} testing framework.` : ''}
-Target coverage: ${validated.coverageTarget}%
-
-Code to test:
-\`\`\`${validated.language}
-${sanitizedCode}
-\`\`\`
-
-Generate tests that include:
-1. Unit tests for each function/method
-2. Edge cases and boundary conditions
-3. Error handling scenarios
-4. Integration tests if applicable
-5. Mock objects/stubs where needed
-6. Clear test descriptions
-7. Assertions with expected values`;
+      const prompt = renderPrompt(client, 'generate_tests.prompt', {
+        language: validated.language,
+        frameworkInstruction: validated.framework ? `Use ${validated.framework} testing framework.` : '',
+        coverageTarget: validated.coverageTarget,
+        code: sanitizedCode
+      });
 
-      return await client.complete(prompt, {
+      const response = await client.complete(prompt, {
         temperature: 0.2,
-        maxTokens: 3000
+        maxTokens: 3000,
+        onToken: tokenProgress(context, 3000),
+        signal: context?.signal
       });
+      if (!validated.verify) {
+        return response;
+      }
+
+      const { testCode, report } = await verifyGeneratedTests(response, {
+        sourceCode: validated.code,
+        language: validated.language,
+        mode: validated.verify,
+        maxRounds: validated.repairRounds,
+        signal: context?.signal,
+        repair: (testCode, diagnostics) => client.complete(renderPrompt(client, 'generate_tests.repair', {
+          language: validated.language,
+          code: sanitizedCode,
+          testCode,
+          diagnostics: diagnostics.map(diagnostic => `- ${diagnostic}`).join('\n')
+        }), {
+          temperature: 0.1,
+          maxTokens: 3000,
+          onToken: tokenProgress(context, 3000),
+          signal: context?.signal
+        })
+      });
+      return JSON.stringify({ testFile: testCode, verification: report }, null, 2);
     }
   }
   ,
@@ -361,6 +797,12 @@ Generate tests that include:
       properties: {
         filePath: { type: 'string', description: 'Path to markdown file' },
         content: { type: 'string', description: 'Direct markdown content (if no filePath)' },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Batch mode: files, directories or glob patterns (e.g. docs/**/*.md) to process one by one'
+        },
+        concurrency: { type: 'integer', description: 'Batch mode: files processed in parallel (default 2)' },
         action: {
           type: 'string',
           enum: ['streamline', 'technical', 'executive', 'api', 'tutorial'],
@@ -376,98 +818,39 @@ Generate tests that include:
           items: { type: 'string' },
           description: 'Specific sections to focus on'
         },
-        maxLength: { type: 'integer', description: 'Maximum output length in words' }
+        maxLength: { type: 'integer', description: 'Maximum output length in words' },
+        output: {
+          type: 'string',
+          description: 'Write the result to this path, or "in-place" to overwrite filePath (keeping a .bak copy)'
+        },
+        dryRun: { type: 'boolean', description: 'With output: return a unified diff instead of writing' }
       },
       required: []
     },
     cacheable: true,
-    timeout: 60000,
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = ProcessMarkdownSchema.parse(args);
-      let content: string = '';
-      
-      if (validated.filePath) {
-        try {
-          const resolvedPath = path.resolve(validated.filePath);
-          content = await fs.readFile(resolvedPath, 'utf-8');
-          logger.info(`Loaded markdown file: ${resolvedPath}`);
-        } catch (error) {
-          throw new ValidationError(`Failed to read file: ${validated.filePath} - ${error}`);
-        }
-      } else if (validated.content) {
-        content = validated.content;
-      } else {
-        throw new ValidationError('Either filePath or content must be provided');
+      if (validated.paths) {
+        return runMarkdownBatch('process_markdown', { ...validated, paths: validated.paths }, client, context);
       }
+      const content = await loadMarkdownContent(validated, context);
+      // Resolve and snapshot the target up front so concurrent edits are detected
+      const writeBack = validated.output
+        ? await planWriteBack(validated.output, { filePath: validated.filePath, content }, context?.sandbox ?? defaultSandbox)
+        : undefined;
       
       const sanitizedContent = sanitizeInput(content);
       const action = validated.action || 'streamline';
       const format = validated.format || 'markdown';
       const maxLength = validated.maxLength || 2000;
       
-      const actionPrompts = {
-        streamline: `Streamline this documentation to be more concise and clear while preserving all critical information. Focus on:
-- Removing redundancy
-- Improving clarity
-- Better organization
-- Highlighting key features
-- Making it scannable`,
-        
-        technical: `Convert this documentation into a detailed technical specification. Include:
-- Architecture details
-- Implementation specifics
-- API references
-- Code examples
-- Performance considerations
-- Security notes`,
-        
-        executive: `Create an executive summary of this documentation. Focus on:
-- Business value
-- Key capabilities
-- ROI potential
-- Strategic advantages
-- High-level architecture`,
-        
-        api: `Transform this into API documentation. Structure it with:
-- Endpoint definitions
-- Request/response formats
-- Authentication details
-- Error codes
-- Usage examples
-- Rate limits`,
-        
-        tutorial: `Convert this into a step-by-step tutorial. Include:
-- Prerequisites
-- Setup instructions
-- Hands-on exercises
-- Code examples
-- Troubleshooting tips
-- Best practices`
-      } as const;
-      
-      const sectionsFilter = validated.sections 
-        ? `Focus particularly on these sections: ${validated.sections.join(', ')}`
+      const actionPrompt = renderPrompt(client, `process_markdown.action.${action}`);
+      const formatInstruction = renderPrompt(client, `process_markdown.format.${format}`);
+      const partFormatInstruction = renderPrompt(client, 'process_markdown.format.markdown');
+      const sectionsFilter = validated.sections
+        ? renderPrompt(client, 'process_markdown.sections', { sections: validated.sections.join(', ') })
         : '';
       
-      const formatInstructions = {
-        markdown: 'Output in clean, well-structured markdown format',
-        html: 'Output in semantic HTML with appropriate tags',
-        plain: 'Output in plain text with clear formatting',
-        structured: 'Output as structured JSON with sections as keys'
-      } as const;
-      
-      const prompt = `${actionPrompts[action]}
-
-${sectionsFilter}
-
-Maximum length: ${maxLength} words
-${formatInstructions[format]}
-
-Original documentation:
-${sanitizedContent}
-
-Processed output:`;
-      
       const cacheKey = generateCacheKey('process_markdown', {
         action,
         format,
@@ -475,21 +858,53 @@ Processed output:`;
         contentHash: crypto.createHash('sha256').update(sanitizedContent).digest('hex')
       });
 
-      const response = await client.complete(prompt, {
+      const generate = () => completeWithChunking(client, sanitizedContent, {
+        single: (content) => renderPrompt(client, 'process_markdown.single', {
+          action: actionPrompt,
+          sectionsFilter,
+          maxLength,
+          format: formatInstruction,
+          content
+        }),
+        // Parts are processed as markdown; the reduce pass applies the requested format
+        map: (chunk, part, total) => renderPrompt(client, 'process_markdown.map', {
+          action: actionPrompt,
+          part,
+          total,
+          sectionsFilter,
+          maxLength: Math.ceil(maxLength / total),
+          format: partFormatInstruction,
+          content: chunk
+        }),
+        reduce: (partials) => renderPrompt(client, 'process_markdown.reduce', {
+          maxLength,
+          format: formatInstruction,
+          partials: formatPartials(partials)
+        })
+      }, {
         temperature: 0.3,
         maxTokens: maxLength * 2,
-        cacheKey
+        cacheKey,
+        jsonSchema: format === 'structured' ? toResponseFormat(structuredDocumentOutput) : undefined,
+        validate: format === 'structured' ? matchesSpec(structuredDocumentOutput) : undefined,
+        onProgress: context?.reportProgress,
+        signal: context?.signal,
+        waitForRateLimit: context?.waitForRateLimit
       });
 
+      let result: string;
       if (format === 'structured') {
-        try {
-          return JSON.stringify(JSON.parse(response), null, 2);
-        } catch {
-          return JSON.stringify({ content: response }, null, 2);
-        }
+        const document = await completeJson(client, structuredDocumentOutput, generate, {
+          maxTokens: maxLength * 2,
+          signal: context?.signal,
+          waitForRateLimit: context?.waitForRateLimit
+        });
+        result = JSON.stringify(document, null, 2);
+      } else {
+        result = await generate();
       }
-      
-      return response;
+
+      return writeBack ? commitWriteBack(writeBack, result, validated.dryRun) : result;
     }
   },
   {
@@ -500,6 +915,12 @@ Processed output:`;
       properties: {
         filePath: { type: 'string', description: 'Path to markdown file' },
         content: { type: 'string', description: 'Direct markdown content (if no filePath)' },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Batch mode: files, directories or glob patterns (e.g. docs/**/*.md) to process one by one'
+        },
+        concurrency: { type: 'integer', description: 'Batch mode: files processed in parallel (default 2)' },
         style: {
           type: 'string',
           enum: ['key-findings', 'tldr', 'overview', 'actionable', 'technical-summary'],
@@ -511,75 +932,18 @@ Processed output:`;
       required: []
     },
     cacheable: true,
-    timeout: 45000,
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = SummarizeMarkdownSchema.parse(args);
-      let content: string = '';
-      
-      if (validated.filePath) {
-        try {
-          const resolvedPath = path.resolve(validated.filePath);
-          content = await fs.readFile(resolvedPath, 'utf-8');
-          logger.info(`Loaded markdown file for summarization: ${resolvedPath}`);
-        } catch (error) {
-          throw new ValidationError(`Failed to read file: ${validated.filePath}`);
-        }
-      } else if (validated.content) {
-        content = validated.content;
-      } else {
-        throw new ValidationError('Either filePath or content must be provided');
+      if (validated.paths) {
+        return runMarkdownBatch('summarize_markdown', { ...validated, paths: validated.paths }, client, context);
       }
+      const content = await loadMarkdownContent(validated, context);
       
       const sanitizedContent = sanitizeInput(content);
       const style = validated.style || 'key-findings';
       const maxPoints = validated.maxPoints || 5;
       const maxWords = validated.maxWords || 300;
       
-      const stylePrompts = {
-        'key-findings': `Extract the ${maxPoints} most important findings or features from this documentation. Focus on:
-- Core capabilities
-- Unique features
-- Critical information
-- Important dependencies or requirements
-- Key benefits`,
-        
-        'tldr': `Create a TL;DR summary in ${maxWords} words or less. Include:
-- What it is
-- What it does
-- Why it matters
-- How to use it`,
-        
-        'overview': `Provide a high-level overview covering:
-- Purpose and goals
-- Main components
-- Use cases
-- Target audience`,
-        
-        'actionable': `Extract actionable items and next steps:
-- Required actions
-- Setup steps
-- Configuration needed
-- Commands to run
-- Things to verify`,
-        
-        'technical-summary': `Create a technical summary highlighting:
-- Architecture patterns
-- Technologies used
-- APIs and interfaces
-- Performance characteristics
-- Integration points`
-      } as const;
-      
-      const prompt = `${stylePrompts[style]}
-
-Maximum ${maxWords} words.
-Format as a bulleted list for clarity.
-
-Documentation:
-${sanitizedContent}
-
-Summary:`;
-
       const cacheKey = generateCacheKey('summarize_markdown', {
         style,
         maxPoints,
@@ -587,10 +951,13 @@ Summary:`;
         contentHash: crypto.createHash('sha256').update(sanitizedContent).digest('hex')
       });
 
-      return await client.complete(prompt, {
+      return await completeWithChunking(client, sanitizedContent, summarizeMarkdownPrompts(client, { style, maxPoints, maxWords }), {
         temperature: 0.2,
         maxTokens: maxWords * 2,
-        cacheKey
+        cacheKey,
+        onProgress: context?.reportProgress,
+        signal: context?.signal,
+        waitForRateLimit: context?.waitForRateLimit
       });
     }
   },
@@ -602,6 +969,12 @@ Summary:`;
       properties: {
         filePath: { type: 'string', description: 'Path to markdown file' },
         content: { type: 'string', description: 'Direct markdown content (if no filePath)' },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Batch mode: files, directories or glob patterns (e.g. docs/**/*.md) to process one by one'
+        },
+        concurrency: { type: 'integer', description: 'Batch mode: files processed in parallel (default 2)' },
         maxTags: { type: 'integer', description: 'Maximum number of tags to extract' },
         categories: {
           type: 'array',
@@ -616,52 +989,23 @@ Summary:`;
       required: []
     },
     cacheable: true,
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = TagMarkdownSchema.parse(args);
-      let content: string = '';
-      
-      if (validated.filePath) {
-        try {
-          const resolvedPath = path.resolve(validated.filePath);
-          content = await fs.readFile(resolvedPath, 'utf-8');
-        } catch (error) {
-          throw new ValidationError(`Failed to read file: ${validated.filePath}`);
-        }
-      } else if (validated.content) {
-        content = validated.content;
-      } else {
-        throw new ValidationError('Either filePath or content must be provided');
+      if (validated.paths) {
+        return runMarkdownBatch('tag_markdown', { ...validated, paths: validated.paths }, client, context, buildTagIndex);
       }
+      const content = await loadMarkdownContent(validated, context);
       
       const sanitizedContent = sanitizeInput(content);
       const maxTags = validated.maxTags || 10;
       const categories = validated.categories || ['technology', 'framework', 'feature'];
       const includeMetadata = validated.includeMetadata || false;
       
-      const categoryDescriptions = {
-        technology: 'Technologies, platforms, and tech stacks',
-        framework: 'Frameworks, libraries, and SDKs',
-        language: 'Programming languages',
-        pattern: 'Design patterns, architectural patterns',
-        domain: 'Business domain, industry, use case',
-        feature: 'Key features and capabilities',
-        tool: 'Tools, utilities, and services'
-      } as const;
-      
-      const selectedCategories = categories
-        .map(cat => `- ${categoryDescriptions[cat]}`)
-        .join('\n');
-      
-      const prompt = `Extract up to ${maxTags} semantic tags from this markdown documentation.
-Focus on these categories:
-${selectedCategories}
-
-${includeMetadata ? 'For each tag, provide: tag name, category, and relevance (high/medium/low)' : 'Return a simple list of tags'}
-
-Documentation:
-${sanitizedContent}
-
-${includeMetadata ? 'Return as JSON format: [{"tag": "name", "category": "type", "relevance": "level"}]' : 'Return as JSON array of strings'}:`;
+      const prompt = renderPrompt(client, includeMetadata ? 'tag_markdown.metadata' : 'tag_markdown.list', {
+        maxTags,
+        categories: renderOptionList(client, 'tag_markdown.category', categories),
+        content: sanitizedContent
+      });
       
       const cacheKey = generateCacheKey('tag_markdown', {
         maxTags,
@@ -670,22 +1014,20 @@ ${includeMetadata ? 'Return as JSON format: [{"tag": "name", "category": "type",
         contentHash: crypto.createHash('sha256').update(sanitizedContent).digest('hex')
       });
 
-      const response = await client.complete(prompt, {
+      const output = includeMetadata
+        ? tagMetadataOutput(maxTags, categories)
+        : tagListOutput(maxTags);
+      const { tags } = await completeJson<{ tags: unknown[] }>(client, output, () => client.complete(prompt, {
         temperature: 0.1,
         maxTokens: 500,
-        cacheKey
-      });
-      
-      try {
-        const tags = JSON.parse(response);
-        if (!Array.isArray(tags)) {
-          throw new Error('Response is not an array');
-        }
-        return JSON.stringify(tags, null, 2);
-      } catch (error) {
-        logger.warn('Failed to parse tags as JSON, returning raw response', { error });
-        return response;
-      }
+        cacheKey,
+        jsonSchema: toResponseFormat(output),
+        validate: matchesSpec(output),
+        signal: context?.signal,
+        waitForRateLimit: context?.waitForRateLimit
+      }), { maxTokens: 500, signal: context?.signal, waitForRateLimit: context?.waitForRateLimit });
+
+      return JSON.stringify(tags.slice(0, maxTags), null, 2);
     }
   },
   {
@@ -696,6 +1038,12 @@ ${includeMetadata ? 'Return as JSON format: [{"tag": "name", "category": "type",
       properties: {
         filePath: { type: 'string', description: 'Path to markdown file' },
         content: { type: 'string', description: 'Direct markdown content (if no filePath)' },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Batch mode: files, directories or glob patterns (e.g. docs/**/*.md) to process one by one'
+        },
+        concurrency: { type: 'integer', description: 'Batch mode: files processed in parallel (default 2)' },
         checks: {
           type: 'array',
           items: {
@@ -708,59 +1056,341 @@ ${includeMetadata ? 'Return as JSON format: [{"tag": "name", "category": "type",
       required: []
     },
     cacheable: true,
-    handler: async (args, client) => {
+    handler: async (args, client, context) => {
       const validated = AnalyzeMarkdownSchema.parse(args);
-      let content: string = '';
-      
-      if (validated.filePath) {
-        try {
-          const resolvedPath = path.resolve(validated.filePath);
-          content = await fs.readFile(resolvedPath, 'utf-8');
-        } catch (error) {
-          throw new ValidationError(`Failed to read file: ${validated.filePath}`);
-        }
-      } else if (validated.content) {
-        content = validated.content;
-      } else {
-        throw new ValidationError('Either filePath or content must be provided');
+      if (validated.paths) {
+        return runMarkdownBatch('analyze_markdown', { ...validated, paths: validated.paths }, client, context, buildQualityScoreboard);
       }
+      const content = await loadMarkdownContent(validated, context);
       
       const sanitizedContent = sanitizeInput(content);
       const checks = validated.checks || ['completeness', 'clarity', 'structure'];
       
-      const checkDescriptions = {
-        completeness: 'Missing sections, incomplete explanations, lacking examples',
-        clarity: 'Unclear language, jargon without explanation, ambiguous instructions',
-        structure: 'Poor organization, inconsistent formatting, navigation issues',
-        examples: 'Lack of examples, unclear code samples, missing use cases',
-        consistency: 'Inconsistent terminology, conflicting information, style variations'
-      } as const;
-      
-      const selectedChecks = checks
-        .map(check => `- ${checkDescriptions[check]}`)
-        .join('\n');
-      
-      const prompt = `Analyze this markdown documentation for:
-${selectedChecks}
-
-Documentation:
-${sanitizedContent}
-
-Provide a detailed analysis with:
-1. Quality score (1-10) for each checked area
-2. Specific issues found with line references where applicable
-3. Improvement recommendations
-4. Priority of fixes (HIGH, MEDIUM, LOW)
-5. Overall documentation grade (A-F)`;
-      
-      return await client.complete(prompt, {
+      return await completeWithChunking(client, sanitizedContent, analyzeMarkdownPrompts(client, { checks }), {
         temperature: 0.2,
-        maxTokens: 2000
+        maxTokens: 2000,
+        onProgress: context?.reportProgress,
+        signal: context?.signal,
+        waitForRateLimit: context?.waitForRateLimit
+      });
+    }
+  },
+  {
+    name: 'cache_admin',
+    description: 'Inspect the response cache, list entries per tool, or invalidate entries by tool, model or key prefix',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['stats', 'list', 'invalidate'],
+          description: 'Operation to perform'
+        },
+        tool: { type: 'string', description: 'Only entries produced by this tool' },
+        model: { type: 'string', description: 'Only entries produced by this model' },
+        prefix: { type: 'string', description: 'Only entries whose key starts with this prefix' },
+        limit: { type: 'integer', description: 'Maximum entries to list' }
+      },
+      required: []
+    },
+    usesModel: false,
+    handler: async (args, client) => {
+      const validated = CacheAdminSchema.parse(args);
+
+      switch (validated.action) {
+        case 'stats': {
+          const metrics = client.getMetrics();
+          const entries = await client.listCacheEntries();
+          const byTool: Record<string, number> = {};
+          for (const entry of entries) {
+            byTool[entry.tool] = (byTool[entry.tool] ?? 0) + 1;
+          }
+          const hits = metrics.cacheHits + metrics.semanticCacheHits;
+          const lookups = hits + metrics.cacheMisses;
+          return JSON.stringify({
+            entries: entries.length,
+            bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+            hits: metrics.cacheHits,
+            semanticHits: metrics.semanticCacheHits,
+            semanticEntries: metrics.semanticCacheSize,
+            misses: metrics.cacheMisses,
+            hitRatio: lookups > 0 ? hits / lookups : 0,
+            byTool
+          }, null, 2);
+        }
+
+        case 'list': {
+          const entries = (await client.listCacheEntries(validated.tool))
+            .filter(entry => !validated.model || entry.model === validated.model)
+            .filter(entry => !validated.prefix || entry.key.startsWith(validated.prefix));
+          return JSON.stringify({
+            total: entries.length,
+            entries: entries.slice(0, validated.limit).map(entry => ({
+              ...entry,
+              createdAt: new Date(entry.createdAt).toISOString(),
+              expiresAt: new Date(entry.expiresAt).toISOString()
+            }))
+          }, null, 2);
+        }
+
+        case 'invalidate': {
+          const removed = await client.invalidateCache({
+            tool: validated.tool,
+            model: validated.model,
+            prefix: validated.prefix
+          });
+          return JSON.stringify({ removed }, null, 2);
+        }
+      }
+    }
+  },
+  {
+    name: 'semantic_search',
+    description: 'Search local code and docs by meaning using embeddings. Directories are indexed on first use and re-indexed incrementally (changed files only) before each search',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to look for, in natural language or code' },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Directories to search (default: the allowed roots)'
+        },
+        topK: { type: 'integer', description: 'Number of results (default 5)' },
+        minScore: { type: 'number', description: 'Minimum cosine similarity, -1 to 1' },
+        reindex: { type: 'boolean', description: 'Update the index before searching (default true)' }
+      },
+      required: ['query']
+    },
+    usesModel: false,
+    handler: async (args, client, context) => {
+      const validated = SemanticSearchSchema.parse(args);
+      const sandbox = context?.sandbox ?? defaultSandbox;
+      const roots = [...new Set(await Promise.all(
+        (validated.paths ?? sandbox.roots).map(dir => sandbox.resolveDirectory(dir))
+      ))];
+
+      const indexed = [];
+      if (validated.reindex) {
+        for (const root of roots) {
+          indexed.push(await semanticIndex.update(client, root, {
+            signal: context?.signal,
+            onProgress: context?.reportProgress
+          }));
+        }
+      }
+
+      const results = await semanticIndex.search(client, roots, validated.query, validated.topK, validated.minScore, context?.signal);
+      return JSON.stringify({
+        query: validated.query,
+        model: client.resolveEmbeddingModel(),
+        ...(indexed.length > 0 && { indexed }),
+        results
+      }, null, 2);
+    }
+  },
+  {
+    name: 'list_models',
+    description: 'List the models the backend can serve, whether each is loaded, and the model tools use by default',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        loadedOnly: { type: 'boolean', description: 'Only list loaded models' }
+      },
+      required: []
+    },
+    usesModel: false,
+    handler: async (args, client) => {
+      const validated = ListModelsSchema.parse(args);
+      const models = await client.listModels();
+
+      return JSON.stringify({
+        provider: client.getMetrics().provider,
+        configured: config.lmStudio.model,
+        default: client.resolveModel(),
+        models: models.filter(model => !validated.loadedOnly || model.loaded !== false)
+      }, null, 2);
+    }
+  },
+  {
+    name: 'load_model',
+    description: 'Load a downloaded model into memory so tools can use it (LM Studio only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        model: { type: 'string', description: 'Model key as shown by list_models' },
+        contextLength: { type: 'integer', description: 'Context window to load the model with' }
+      },
+      required: ['model']
+    },
+    usesModel: false,
+    handler: async (args, client) => {
+      const validated = LoadModelSchema.parse(args);
+      const loaded = await client.loadModel(validated.model, { contextLength: validated.contextLength });
+      return JSON.stringify(loaded, null, 2);
+    }
+  },
+  {
+    name: 'unload_model',
+    description: 'Unload a model (every loaded instance of it) or a single model instance to free memory (LM Studio only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        model: { type: 'string', description: 'Model key or instance id' }
+      },
+      required: ['model']
+    },
+    usesModel: false,
+    handler: async (args, client) => {
+      const validated = UnloadModelSchema.parse(args);
+      const instances = await client.unloadModel(validated.model);
+      return JSON.stringify({ model: validated.model, unloaded: instances }, null, 2);
+    }
+  },
+  {
+    name: 'chat',
+    description: 'Hold a multi-turn conversation with the local model, e.g. for iterative drafting. Omit sessionId to start a new session, then pass the returned sessionId to continue it; older history is trimmed to fit the token budget',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', description: 'The next user message' },
+        sessionId: { type: 'string', description: 'Session to continue; a new session is started when unset or unknown' },
+        systemPrompt: { type: 'string', description: 'System prompt for the session; replaces the current one when given' },
+        temperature: { type: 'number', description: 'Sampling temperature (default 0.7)' },
+        maxTokens: { type: 'integer', description: 'Maximum tokens in the reply (default 1000)' }
+      },
+      required: ['message']
+    },
+    handler: async (args, client, context) => {
+      const validated = ChatSchema.parse(args);
+      const turn = await chatSessions.send(context?.mcpSessionId, validated.sessionId, validated.message, validated.systemPrompt, messages =>
+        client.completeMessages(messages, {
+          temperature: validated.temperature,
+          maxTokens: validated.maxTokens,
+          onToken: tokenProgress(context, validated.maxTokens),
+          signal: context?.signal
+        })
+      );
+      return JSON.stringify(turn, null, 2);
+    }
+  },
+  {
+    name: 'ask_local_model',
+    description: 'Send any prompt or conversation to the local model with full sampling control, for ad-hoc tasks no other tool covers. Presets: deterministic, precise, balanced, creative; explicit sampling arguments override the preset',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'User message; appended after messages when both are given' },
+        messages: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              role: { type: 'string', enum: ['system', 'user', 'assistant'] },
+              content: { type: 'string' }
+            },
+            required: ['role', 'content']
+          },
+          description: 'Conversation to complete, oldest first'
+        },
+        systemPrompt: { type: 'string', description: 'System prompt sent before the messages' },
+        preset: {
+          type: 'string',
+          enum: [...SAMPLING_PRESET_NAMES],
+          description: 'Named sampling settings to start from'
+        },
+        temperature: { type: 'number', description: 'Sampling temperature, 0 to 2 (default 0.3)' },
+        max_tokens: { type: 'integer', description: 'Maximum tokens to generate (default 1000)' },
+        top_p: { type: 'number', description: 'Nucleus sampling probability mass' },
+        top_k: { type: 'integer', description: 'Sample from the k most likely tokens' },
+        stop: {
+          type: ['string', 'array'],
+          items: { type: 'string' },
+          description: 'Up to 4 sequences that end the completion'
+        },
+        seed: { type: 'integer', description: 'Seed for reproducible sampling' },
+        repeat_penalty: { type: 'number', description: 'Penalty for repeated tokens, 1 disables it' },
+        cache: { type: 'boolean', description: 'Reuse cached answers to identical requests (default true)' }
+      },
+      required: []
+    },
+    cacheable: true,
+    handler: async (args, client, context) => {
+      const validated = AskLocalModelSchema.parse(args);
+      const sampling = resolveSampling(validated.preset, {
+        temperature: validated.temperature,
+        topP: validated.top_p,
+        topK: validated.top_k,
+        stop: typeof validated.stop === 'string' ? [validated.stop] : validated.stop,
+        seed: validated.seed,
+        repeatPenalty: validated.repeat_penalty
+      });
+      const messages: ChatMessage[] = [
+        ...(validated.systemPrompt ? [{ role: 'system' as const, content: validated.systemPrompt }] : []),
+        ...(validated.messages ?? []),
+        ...(validated.prompt ? [{ role: 'user' as const, content: validated.prompt }] : [])
+      ];
+
+      return await client.completeMessages(messages, {
+        ...sampling,
+        maxTokens: validated.max_tokens,
+        cacheKey: validated.cache ? generateCacheKey('ask_local_model', { messages }) : undefined,
+        onToken: tokenProgress(context, validated.max_tokens),
+        signal: context?.signal
       });
     }
+  },
+  {
+    name: 'list_chat_sessions',
+    description: 'List active chat sessions, or show the stored messages of one session',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'Return the system prompt and messages of this session' }
+      },
+      required: []
+    },
+    usesModel: false,
+    handler: async (args, _client, context) => {
+      const validated = ListChatSessionsSchema.parse(args);
+      if (!validated.sessionId) {
+        return JSON.stringify({ sessions: chatSessions.list(context?.mcpSessionId) }, null, 2);
+      }
+
+      const session = chatSessions.get(context?.mcpSessionId, validated.sessionId);
+      if (!session) {
+        throw new ValidationError(`Unknown chat session: ${validated.sessionId}`, 'sessionId', validated.sessionId);
+      }
+      return JSON.stringify({ id: session.id, systemPrompt: session.systemPrompt, messages: session.messages }, null, 2);
+    }
+  },
+  {
+    name: 'delete_chat_session',
+    description: 'Delete a chat session and its history',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'Session to delete' }
+      },
+      required: ['sessionId']
+    },
+    usesModel: false,
+    handler: async (args, _client, context) => {
+      const validated = DeleteChatSessionSchema.parse(args);
+      chatSessions.delete(context?.mcpSessionId, validated.sessionId);
+      return JSON.stringify({ deleted: validated.sessionId }, null, 2);
+    }
   }
 ];
 
+// Adds a tool defined outside this file, e.g. from the custom tools file
+export function registerTool(tool: Tool) {
+  if (getToolByName(tool.name)) {
+    throw new ValidationError(`A tool named ${tool.name} is already registered`, 'name', tool.name);
+  }
+  tools.push(tool);
+}
+
 export function getToolByName(name: string): Tool | undefined {
   return tools.find(tool => tool.name === name);
 }
@@ -793,6 +1423,24 @@ export function validateToolInput(toolName: string, input: any): any {
       return TagMarkdownSchema.parse(input);
     case 'analyze_markdown':
       return AnalyzeMarkdownSchema.parse(input);
+    case 'cache_admin':
+      return CacheAdminSchema.parse(input);
+    case 'semantic_search':
+      return SemanticSearchSchema.parse(input);
+    case 'list_models':
+      return ListModelsSchema.parse(input);
+    case 'load_model':
+      return LoadModelSchema.parse(input);
+    case 'unload_model':
+      return UnloadModelSchema.parse(input);
+    case 'chat':
+      return ChatSchema.parse(input);
+    case 'ask_local_model':
+      return AskLocalModelSchema.parse(input);
+    case 'list_chat_sessions':
+      return ListChatSessionsSchema.parse(input);
+    case 'delete_chat_session':
+      return DeleteChatSessionSchema.parse(input);
     default:
       return input;
   }
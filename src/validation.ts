@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SAMPLING_PRESET_NAMES } from './sampling-presets.js';
 
 // Tool input schemas with strict validation
 export const GenerateDocsSchema = z.object({
@@ -23,59 +24,174 @@ export const ExtractTagsSchema = z.object({
 export const AnalyzeCodeSchema = z.object({
   code: z.string().min(1).max(50000),
   language: z.string().min(1).max(50),
-  checks: z.array(z.enum(['security', 'performance', 'style', 'bugs'])).default(['security', 'bugs'])
+  checks: z.array(z.enum(['security', 'performance', 'style', 'bugs'])).default(['security', 'bugs']),
+  outputFormat: z.enum(['text', 'json', 'sarif']).default('text'),
+  fileName: z.string().min(1).max(500).optional() // Artifact URI in findings, e.g. src/app.ts
 });
 
 export const RefactorSuggestionsSchema = z.object({
   code: z.string().min(1).max(50000),
   language: z.string().min(1).max(50),
-  focus: z.enum(['readability', 'performance', 'maintainability', 'all']).default('all')
+  focus: z.enum(['readability', 'performance', 'maintainability', 'all']).default('all'),
+  outputFormat: z.enum(['text', 'diff']).default('text'),
+  fileName: z.string().min(1).max(500).optional(), // Path in the diff headers
+  repairRounds: z.number().int().min(0).max(3).default(1) // Re-prompts for suggestions that don't apply
 });
 
 export const GenerateTestsSchema = z.object({
   code: z.string().min(1).max(50000),
   language: z.string().min(1).max(50),
   framework: z.string().optional(),
-  coverageTarget: z.number().min(0).max(100).default(80)
+  coverageTarget: z.number().min(0).max(100).default(80),
+  verify: z.enum(['syntax', 'types']).optional(), // JS/TS only; unset skips verification
+  repairRounds: z.number().int().min(0).max(5).default(2)
 });
 
 export const ProcessMarkdownSchema = z.object({
   filePath: z.string().optional(),
   content: z.string().optional(),
+  paths: z.array(z.string().min(1)).min(1).max(100).optional(), // files, directories or globs
+  concurrency: z.number().int().positive().max(8).optional(),
   action: z.enum(['streamline', 'technical', 'executive', 'api', 'tutorial']).default('streamline'),
   format: z.enum(['markdown', 'html', 'plain', 'structured']).default('markdown'),
   sections: z.array(z.string()).optional(),
-  maxLength: z.number().int().positive().max(10000).default(2000)
-}).refine(data => data.filePath || data.content, {
-  message: 'Either filePath or content must be provided'
+  maxLength: z.number().int().positive().max(10000).default(2000),
+  output: z.string().min(1).optional(), // target path, or 'in-place'
+  dryRun: z.boolean().default(false)
+}).refine(data => data.filePath || data.content || data.paths, {
+  message: 'One of filePath, content or paths must be provided'
+}).refine(data => !data.paths || !data.output || data.output === 'in-place', {
+  message: 'Batch mode only supports output "in-place"'
 });
 
 export const AnalyzeMarkdownSchema = z.object({
   filePath: z.string().optional(),
   content: z.string().optional(),
+  paths: z.array(z.string().min(1)).min(1).max(100).optional(), // files, directories or globs
+  concurrency: z.number().int().positive().max(8).optional(),
   checks: z.array(z.enum(['completeness', 'clarity', 'structure', 'examples', 'consistency'])).default(['completeness', 'clarity', 'structure'])
-}).refine(data => data.filePath || data.content, {
-  message: 'Either filePath or content must be provided'
+}).refine(data => data.filePath || data.content || data.paths, {
+  message: 'One of filePath, content or paths must be provided'
 });
 
 export const SummarizeMarkdownSchema = z.object({
   filePath: z.string().optional(),
   content: z.string().optional(),
+  paths: z.array(z.string().min(1)).min(1).max(100).optional(), // files, directories or globs
+  concurrency: z.number().int().positive().max(8).optional(),
   style: z.enum(['key-findings', 'tldr', 'overview', 'actionable', 'technical-summary']).default('key-findings'),
   maxPoints: z.number().int().positive().max(20).default(5),
   maxWords: z.number().int().positive().max(1000).default(300)
-}).refine(data => data.filePath || data.content, {
-  message: 'Either filePath or content must be provided'
+}).refine(data => data.filePath || data.content || data.paths, {
+  message: 'One of filePath, content or paths must be provided'
 });
 
 export const TagMarkdownSchema = z.object({
   filePath: z.string().optional(),
   content: z.string().optional(),
+  paths: z.array(z.string().min(1)).min(1).max(100).optional(), // files, directories or globs
+  concurrency: z.number().int().positive().max(8).optional(),
   maxTags: z.number().int().positive().max(30).default(10),
   categories: z.array(z.enum(['technology', 'framework', 'language', 'pattern', 'domain', 'feature', 'tool'])).optional(),
   includeMetadata: z.boolean().default(false)
-}).refine(data => data.filePath || data.content, {
-  message: 'Either filePath or content must be provided'
+}).refine(data => data.filePath || data.content || data.paths, {
+  message: 'One of filePath, content or paths must be provided'
+});
+
+export const CacheAdminSchema = z.object({
+  action: z.enum(['stats', 'list', 'invalidate']).default('stats'),
+  tool: z.string().optional(),
+  model: z.string().optional(),
+  prefix: z.string().optional(),
+  limit: z.number().int().positive().max(500).default(50)
+}).refine(data => data.action !== 'invalidate' || data.tool || data.model || data.prefix, {
+  message: 'invalidate requires at least one of tool, model or prefix'
+});
+
+export const SemanticSearchSchema = z.object({
+  query: z.string().min(1).max(2000),
+  paths: z.array(z.string()).min(1).max(20).optional(),
+  topK: z.number().int().positive().max(50).default(5),
+  minScore: z.number().min(-1).max(1).optional(),
+  reindex: z.boolean().default(true)
+});
+
+// Per-call model override accepted by every tool that calls the model
+export const ModelArgumentSchema = z.string().min(1).max(200).optional();
+
+export const ListModelsSchema = z.object({
+  loadedOnly: z.boolean().default(false)
+});
+
+export const LoadModelSchema = z.object({
+  model: z.string().min(1).max(200),
+  contextLength: z.number().int().positive().optional()
+});
+
+export const UnloadModelSchema = z.object({
+  model: z.string().min(1).max(200)
+});
+
+const ChatSessionIdSchema = z.string().regex(/^[A-Za-z0-9_.:-]{1,128}$/, 'Session ids may only contain letters, digits and _.:-');
+
+export const ChatSchema = z.object({
+  message: z.string().min(1).max(50000),
+  sessionId: ChatSessionIdSchema.optional(), // Starts a new session when unset or unknown
+  systemPrompt: z.string().min(1).max(10000).optional(),
+  temperature: z.number().min(0).max(2).default(0.7),
+  maxTokens: z.number().int().positive().max(32000).default(1000)
+});
+
+export const ListChatSessionsSchema = z.object({
+  sessionId: ChatSessionIdSchema.optional() // Return this session's messages
+});
+
+export const DeleteChatSessionSchema = z.object({
+  sessionId: ChatSessionIdSchema
+});
+
+export const AskLocalModelSchema = z.object({
+  prompt: z.string().min(1).max(100000).optional(), // Appended as the last user message
+  messages: z.array(z.object({
+    role: z.enum(['system', 'user', 'assistant']),
+    content: z.string().min(1).max(100000)
+  })).min(1).max(200).optional(),
+  systemPrompt: z.string().min(1).max(20000).optional(),
+  preset: z.enum(SAMPLING_PRESET_NAMES).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().positive().max(32000).default(1000),
+  top_p: z.number().gt(0).max(1).optional(),
+  top_k: z.number().int().nonnegative().optional(),
+  stop: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(4)]).optional(),
+  seed: z.number().int().optional(),
+  repeat_penalty: z.number().positive().max(2).optional(),
+  cache: z.boolean().default(true)
+}).refine(data => data.prompt || data.messages, {
+  message: 'One of prompt or messages must be provided'
+}).refine(data => !data.systemPrompt || !data.messages?.some(message => message.role === 'system'), {
+  message: 'Pass the system prompt either as systemPrompt or as a system message, not both'
+});
+
+// Declarative tools loaded from CUSTOM_TOOLS_FILE
+export const CustomToolDefinitionSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]{0,63}$/, 'Tool names must be snake_case'),
+  description: z.string().min(1),
+  inputSchema: z.object({
+    type: z.literal('object'),
+    properties: z.record(z.record(z.any())),
+    required: z.array(z.string()).default([])
+  }),
+  prompt: z.string().min(1), // {{property}} placeholders
+  version: z.number().int().positive().default(1),
+  temperature: z.number().min(0).max(2).default(0.3),
+  maxTokens: z.number().int().positive().max(32000).default(1000),
+  output: z.enum(['text', 'json']).default('text'),
+  outputSchema: z.record(z.any()).optional(), // JSON schema for output: json
+  cacheable: z.boolean().default(true)
+});
+
+export const CustomToolsFileSchema = z.object({
+  tools: z.array(CustomToolDefinitionSchema)
 });
 
 // Response validation schemas
@@ -99,6 +215,113 @@ export const LMStudioResponseSchema = z.object({
   }).optional()
 });
 
+export const OllamaChatResponseSchema = z.object({
+  model: z.string(),
+  message: z.object({
+    role: z.string(),
+    content: z.string()
+  }),
+  done: z.boolean(),
+  prompt_eval_count: z.number().optional(),
+  eval_count: z.number().optional()
+});
+
+export const EmbeddingResponseSchema = z.object({
+  model: z.string(),
+  data: z.array(z.object({
+    index: z.number(),
+    embedding: z.array(z.number())
+  })),
+  usage: z.object({
+    prompt_tokens: z.number()
+  }).optional()
+});
+
+export const OllamaEmbedResponseSchema = z.object({
+  model: z.string(),
+  embeddings: z.array(z.array(z.number())),
+  prompt_eval_count: z.number().optional()
+});
+
+export const OllamaTagsResponseSchema = z.object({
+  models: z.array(z.object({
+    name: z.string(),
+    size: z.number().optional(),
+    details: z.object({
+      family: z.string().optional(),
+      parameter_size: z.string().optional(),
+      quantization_level: z.string().optional()
+    }).optional()
+  }))
+});
+
+// LM Studio's REST model management API (/api/v1/models)
+export const LMStudioModelsResponseSchema = z.object({
+  models: z.array(z.object({
+    key: z.string(),
+    type: z.string(),
+    display_name: z.string().optional(),
+    size_bytes: z.number().optional(),
+    max_context_length: z.number().optional(),
+    loaded_instances: z.array(z.object({ id: z.string() })).default([])
+  }))
+});
+
+export const LMStudioLoadResponseSchema = z.object({
+  instance_id: z.string(),
+  load_time_seconds: z.number().optional()
+});
+
+// Structured tool output schemas
+export const TagListOutputSchema = z.object({
+  tags: z.array(z.string())
+});
+
+export const TagMetadataOutputSchema = z.object({
+  tags: z.array(z.object({
+    tag: z.string(),
+    category: z.string(),
+    relevance: z.enum(['high', 'medium', 'low'])
+  }))
+});
+
+export const StructuredDocumentOutputSchema = z.record(z.string());
+
+// Lines and columns are 1-based; columns are optional and endLine defaults to startLine
+export const CodeFindingSchema = z.object({
+  ruleId: z.string().min(1).max(100),
+  category: z.enum(['security', 'performance', 'style', 'bugs']),
+  severity: z.enum(['high', 'medium', 'low']),
+  message: z.string().min(1),
+  startLine: z.number().int().positive(),
+  endLine: z.number().int().positive().optional(),
+  startColumn: z.number().int().positive().optional(),
+  endColumn: z.number().int().positive().optional(),
+  suggestedFix: z.string().optional()
+});
+
+export const CodeFindingsOutputSchema = z.object({
+  findings: z.array(CodeFindingSchema),
+  score: z.number().min(1).max(10)
+});
+
+export type CodeFinding = z.infer<typeof CodeFindingSchema>;
+
+// A refactoring as a replacement of lines quoted from the code
+export const RefactorEditSchema = z.object({
+  title: z.string().min(1).max(200),
+  priority: z.enum(['high', 'medium', 'low']),
+  rationale: z.string().min(1),
+  original: z.string().refine(text => text.trim().length > 0, 'must quote at least one non-blank line'),
+  replacement: z.string()
+});
+
+export const RefactorEditsOutputSchema = z.object({
+  suggestions: z.array(RefactorEditSchema)
+});
+
+export type RefactorEdit = z.infer<typeof RefactorEditSchema>;
+
 // Tool metadata validation
 export const ToolMetadataSchema = z.object({
   name: z.string().min(1).max(100),
@@ -141,6 +364,32 @@ export function detectPotentialInjection(input: string): boolean {
   return suspiciousPatterns.some(pattern => pattern.test(input));
 }
 
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public schemaName: string,
+    public lastResponse: string,
+    public issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, public problems: string[] = []) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export class CancelledError extends Error {
+  constructor(message: string = 'Request was cancelled by the client') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
 export class ValidationError extends Error {
   constructor(
     message: string,
@@ -150,4 +399,15 @@ export class ValidationError extends Error {
     super(message);
     this.name = 'ValidationError';
   }
-}
\ No newline at end of file
+}
+
+export class ModelNotLoadedError extends ValidationError {
+  constructor(model: string, public loaded: string[], hint: string = 'Load it with the load_model tool first.') {
+    super(
+      `Model '${model}' is not loaded. Loaded models: ${loaded.join(', ') || 'none'}. ${hint}`,
+      'model',
+      model
+    );
+    this.name = 'ModelNotLoadedError';
+  }
+}
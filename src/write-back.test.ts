@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { commitWriteBack, planWriteBack, IN_PLACE } from './write-back.js';
+import { FileSandbox } from './sandbox.js';
+import { ValidationError } from './validation.js';
+
+describe('write-back', () => {
+  let dir: string;
+  let sandbox: FileSandbox;
+  let source: string;
+
+  const read = (file: string) => fs.readFileSync(file, 'utf-8');
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'write-back-')));
+    sandbox = new FileSandbox([dir]);
+    source = path.join(dir, 'doc.md');
+    fs.writeFileSync(source, '# Doc\n\nOld text.\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('overwrites the source in place and keeps a .bak copy', async () => {
+    const plan = await planWriteBack(IN_PLACE, { filePath: source, content: read(source) }, sandbox);
+    const result = await commitWriteBack(plan, '# Doc\n\nNew text.', false);
+
+    expect(read(source)).toBe('# Doc\n\nNew text.\n');
+    expect(read(`${source}.bak`)).toBe('# Doc\n\nOld text.\n');
+    expect(result).toContain(`backup: ${source}.bak`);
+    expect(result).toContain('-Old text.\n+New text.');
+  });
+
+  it('leaves the file untouched on a dry run', async () => {
+    const plan = await planWriteBack(IN_PLACE, { filePath: source, content: read(source) }, sandbox);
+    const result = await commitWriteBack(plan, '# Doc\n\nNew text.\n', true);
+
+    expect(result).toMatch(/^Dry run: .*doc\.md was not modified\./);
+    expect(result).toContain('+New text.');
+    expect(read(source)).toBe('# Doc\n\nOld text.\n');
+    expect(fs.existsSync(`${source}.bak`)).toBe(false);
+  });
+
+  it('diffs a new target against /dev/null', async () => {
+    const target = path.join(dir, 'summary.md');
+    const plan = await planWriteBack(target, { filePath: source, content: read(source) }, sandbox);
+    const result = await commitWriteBack(plan, 'Summary.\n', false);
+
+    expect(result).toContain('--- /dev/null');
+    expect(result).toContain(`+++ ${target}`);
+    expect(read(target)).toBe('Summary.\n');
+    expect(fs.existsSync(`${target}.bak`)).toBe(false);
+  });
+
+  it('refuses to overwrite a target that changed after it was read', async () => {
+    const plan = await planWriteBack(IN_PLACE, { filePath: source, content: read(source) }, sandbox);
+    fs.writeFileSync(source, '# Doc\n\nEdited meanwhile.\n');
+
+    await expect(commitWriteBack(plan, 'New text.\n', false)).rejects.toThrow('changed since it was read');
+    expect(read(source)).toBe('# Doc\n\nEdited meanwhile.\n');
+    expect(fs.existsSync(`${source}.bak`)).toBe(false);
+
+    // Also when a new target appears before the write
+    const target = path.join(dir, 'summary.md');
+    const newPlan = await planWriteBack(target, { content: 'text' }, sandbox);
+    fs.writeFileSync(target, 'Someone else.\n');
+    await expect(commitWriteBack(newPlan, 'Summary.\n', false)).rejects.toThrow(ValidationError);
+    expect(read(target)).toBe('Someone else.\n');
+  });
+
+  it('rejects in-place output without a file and targets outside the sandbox', async () => {
+    await expect(planWriteBack(IN_PLACE, { content: 'text' }, sandbox)).rejects.toThrow('requires filePath');
+    await expect(planWriteBack(path.join(os.tmpdir(), 'elsewhere.md'), { content: 'text' }, sandbox))
+      .rejects.toThrow('allowed-roots policy');
+  });
+});
@@ -0,0 +1,87 @@
+import fs from 'fs/promises';
+import { createTwoFilesPatch } from 'diff';
+import { logger } from './logger.js';
+import { ValidationError } from './validation.js';
+import type { FileSandbox } from './sandbox.js';
+
+// `output` value that overwrites the source file, keeping a .bak copy
+export const IN_PLACE = 'in-place';
+
+export interface WriteBackPlan {
+  target: string;
+  resolvedPath: string;
+  inPlace: boolean;
+  // Content of the target when it was read; null if it did not exist
+  original: string | null;
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Resolve and snapshot the write target before the model runs, so that
+ * commitWriteBack() can detect edits made in the meantime.
+ */
+export async function planWriteBack(
+  output: string,
+  source: { filePath?: string; content: string },
+  sandbox: FileSandbox
+): Promise<WriteBackPlan> {
+  const inPlace = output === IN_PLACE;
+  if (inPlace && !source.filePath) {
+    throw new ValidationError(`output "${IN_PLACE}" requires filePath`, 'output');
+  }
+
+  const target = inPlace ? source.filePath! : output;
+  const resolvedPath = await sandbox.resolveForWrite(target);
+  // In place, the snapshot is exactly the content that was processed
+  const original = inPlace ? source.content : await readIfExists(resolvedPath);
+
+  return { target, resolvedPath, inPlace, original };
+}
+
+/**
+ * Write `content` to the planned target, or only describe the change when
+ * dryRun is set. Returns a unified diff against the original either way.
+ */
+export async function commitWriteBack(plan: WriteBackPlan, content: string, dryRun: boolean): Promise<string> {
+  const text = content.endsWith('\n') ? content : `${content}\n`;
+  const diff = createTwoFilesPatch(
+    plan.original === null ? '/dev/null' : plan.target,
+    plan.target,
+    plan.original ?? '',
+    text
+  );
+
+  if (dryRun) {
+    return `Dry run: ${plan.target} was not modified.\n\n${diff}`;
+  }
+
+  const current = await readIfExists(plan.resolvedPath);
+  if (current !== plan.original) {
+    throw new ValidationError(
+      `Refusing to overwrite ${plan.target}: it changed since it was read`,
+      'output',
+      plan.target
+    );
+  }
+
+  let backup: string | undefined;
+  if (plan.inPlace) {
+    backup = `${plan.resolvedPath}.bak`;
+    await fs.copyFile(plan.resolvedPath, backup);
+  }
+
+  const tmpFile = `${plan.resolvedPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpFile, text, 'utf-8');
+  await fs.rename(tmpFile, plan.resolvedPath);
+
+  logger.info('Wrote processed markdown', { target: plan.resolvedPath, backup });
+  return `Wrote ${plan.target}${backup ? ` (backup: ${backup})` : ''}.\n\n${diff}`;
+}